@@ -6,20 +6,64 @@ import { z } from "zod";
 import fs from "node:fs/promises";
 import path from "node:path";
 import os from "node:os";
-import { ElevenLabsClient } from "@elevenlabs/elevenlabs-js";
+import { randomUUID } from "node:crypto";
+import { ElevenLabsClient, type ElevenLabs } from "@elevenlabs/elevenlabs-js";
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  OUTPUT_FORMATS,
+  encodeForOutput,
+  estimateDurationSeconds,
+  getOutputExtension,
+  type OutputFormat,
+} from "./src/output-formats.js";
+import { splitTextIntoChunks } from "./src/text-chunking.js";
+import { fileStemFromId, mapWithConcurrency, readBatchFile } from "./src/batch-script.js";
+import {
+  concatAlignments,
+  segmentsFromWords,
+  wordsFromCharacterAlignment,
+  type CharacterAlignment,
+  type TranscriptWord,
+} from "./src/alignment.js";
+import {
+  getDefaultDictionaries,
+  readPlsFile,
+  type DictionaryReference,
+  type PronunciationRule,
+} from "./src/pronunciation.js";
+import { beginLiveFile, getAudioFileUrl, getAudioServerOrigin, startAudioFileServer, waitForLiveFile } from "./src/server-utils.js";
+import { allocateOutputPath, releaseOutputPath, templateUsesToken } from "./src/output-paths.js";
+import { buildId3Tag, writeId3Tag, type AudioTags } from "./src/id3.js";
+import { readAudioMetadata } from "./src/audio-metadata.js";
+import { AUDIO_EXTENSIONS, checkPlayable, getAudioMimeType, getFormatByExtension, sniffAudioFormat } from "./src/audio-formats.js";
+import { expandAudioSource, type SourceEntry } from "./src/audio-sources.js";
+import { findPlaylist, getPlaylistsDir, listPlaylists, savePlaylist } from "./src/playlists.js";
+import { findCachedOutput, getCacheKey, getCacheMaxBytes, restoreFromCache, storeInCache } from "./src/generation-cache.js";
+import { appendLibraryEntry, readLibrary, searchLibrary, type GenerationType, type LibraryEntry } from "./src/library.js";
+import {
+  SESSION_ID,
+  appendLedgerEntry,
+  estimateMusicCost,
+  estimateSoundEffectCost,
+  estimateSpeechCost,
+  findBudgetViolation,
+  getBudget,
+  getLedgerPath,
+  readCharacterCost,
+  readLedger,
+  releaseUsage,
+  reserveUsage,
+  reservedEntries,
+  sessionEntries,
+  summarizeUsage,
+  todayEntries,
+  type CostEstimate,
+} from "./src/usage.js";
 
 const DIST_DIR = import.meta.dirname.endsWith("dist")
   ? import.meta.dirname
   : path.join(import.meta.dirname, "dist");
 
-const MIME_TYPES: Record<string, string> = {
-  ".mp3": "audio/mpeg",
-  ".wav": "audio/wav",
-  ".ogg": "audio/ogg",
-  ".m4a": "audio/mp4",
-  ".aac": "audio/aac",
-};
-
 // MCP App resource MIME type
 const RESOURCE_MIME_TYPE = "text/html;profile=mcp-app";
 const RESOURCE_URI = "ui://elevenlabs-player/mcp-app.html";
@@ -27,6 +71,40 @@ const RESOURCE_URI = "ui://elevenlabs-player/mcp-app.html";
 // Default voice and model settings
 const DEFAULT_VOICE_ID = "aMSt68OGf4xUZAnLpTU8"; // Juniper
 const DEFAULT_MODEL_ID = "eleven_v3";
+const DEFAULT_STT_MODEL_ID = "scribe_v1";
+const DEFAULT_STS_MODEL_ID = "eleven_multilingual_sts_v2";
+
+// Per-request character limits of the TTS models; longer text is chunked
+const MODEL_CHARACTER_LIMITS: Record<string, number> = {
+  eleven_v3: 5000,
+  eleven_multilingual_v2: 10000,
+  eleven_flash_v2_5: 40000,
+  eleven_turbo_v2_5: 40000,
+  eleven_flash_v2: 30000,
+  eleven_turbo_v2: 30000,
+};
+const FALLBACK_CHARACTER_LIMIT = 5000;
+const DEFAULT_CHUNK_CHARS = 2500;
+const MAX_BATCH_ROWS = 500;
+const DEFAULT_BATCH_CONCURRENCY = 3;
+const MAX_BATCH_CONCURRENCY = 10;
+const MAX_PLAY_TRACKS = 200;
+// Saved queues can grow past one play_audio call, so playlists may hold more
+const MAX_PLAYLIST_TRACKS = 1000;
+// Cover art travels inline in the play_audio result, so it's dropped once a
+// queue carries this much
+const MAX_QUEUE_ARTWORK_BYTES = 8 * 1024 * 1024;
+// Remote previews are buffered whole into a data URL, so downloads stop here
+const MAX_REMOTE_AUDIO_BYTES = 20 * 1024 * 1024;
+
+// ElevenLabs API base URL. ELEVENLABS_BASE_URL points the server at another
+// deployment, such as the bundled mock API for offline development
+const ELEVENLABS_API_BASE_URL = (process.env.ELEVENLABS_BASE_URL || "https://api.elevenlabs.io").replace(/\/+$/, "");
+// Origin of the API, used to authenticate voice sample downloads
+const ELEVENLABS_API_ORIGIN = new URL(ELEVENLABS_API_BASE_URL).origin;
+// Hosts serving the voice previews the API links to. load_audio fetches
+// nothing else besides the API itself
+const VOICE_PREVIEW_HOSTS = new Set(["storage.googleapis.com"]);
 
 // Lazy initialization of ElevenLabs client
 let _client: ElevenLabsClient | null = null;
@@ -36,7 +114,7 @@ function getClient(): ElevenLabsClient {
     if (!apiKey) {
       throw new Error("ELEVENLABS_API_KEY environment variable is required. Configure it in Claude Desktop settings.");
     }
-    _client = new ElevenLabsClient({ apiKey });
+    _client = new ElevenLabsClient({ apiKey, baseUrl: ELEVENLABS_API_BASE_URL });
   }
   return _client;
 }
@@ -46,14 +124,49 @@ function getOutputDir(): string {
   return process.env.ELEVENLABS_OUTPUT_DIR || path.join(os.homedir(), "Desktop");
 }
 
-// Generate a unique filename
-function generateFilename(prefix: string, extension: string): string {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  return `${prefix}_${timestamp}${extension}`;
+// Resolve a user-supplied path and make sure the file exists
+async function resolveExistingFile(filePath: string): Promise<string> {
+  const absolutePath = path.resolve(filePath);
+  try {
+    await fs.access(absolutePath);
+  } catch {
+    throw new Error(`File not found: ${absolutePath}`);
+  }
+  return absolutePath;
+}
+
+// Shared output_path input for the generation tools
+const outputPathSchema = z.string().optional()
+  .describe("Where to save the file, relative to the output directory or absolute inside it (e.g. promo/intro.mp3). End with / to pick only the folder. Default: named by the configured filename template");
+
+// Voice names for the {voice} filename token, looked up once per voice
+const voiceNames = new Map<string, Promise<string>>();
+
+// Choose where a generation is saved. The voice name is only looked up if
+// the filename template uses it. A file's path stays reserved until
+// releaseOutputPath is called once it's written or the call fails
+async function allocateGenerationPath(
+  type: string,
+  extension: string,
+  details: { title?: string; voiceId?: string; outputPath?: string } = {},
+): Promise<string> {
+  let voice: string | undefined;
+  if (details.voiceId && templateUsesToken("voice")) {
+    const { voiceId } = details;
+    if (!voiceNames.has(voiceId)) {
+      voiceNames.set(voiceId, getClient().voices.get(voiceId).then((v) => v.name ?? voiceId, () => voiceId));
+    }
+    voice = await voiceNames.get(voiceId);
+  }
+  return allocateOutputPath(getOutputDir(), { type, extension, title: details.title, voice }, details.outputPath);
 }
 
-// Save audio stream to file
-async function saveStreamToFile(stream: ReadableStream<Uint8Array>, filePath: string): Promise<void> {
+// Shared output_format input for the generation tools
+const outputFormatSchema = z.enum(OUTPUT_FORMATS).optional()
+  .describe("Audio encoding: mp3_<rate>_<kbps>, pcm_<rate> or ulaw_8000/alaw_8000 (saved as WAV), or opus_48000_<kbps> (default: mp3_44100_128)");
+
+// Read an audio stream fully into memory
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
   const chunks: Uint8Array[] = [];
   const reader = stream.getReader();
 
@@ -63,6 +176,10 @@ async function saveStreamToFile(stream: ReadableStream<Uint8Array>, filePath: st
     if (value) chunks.push(value);
   }
 
+  return concatBytes(chunks);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
   const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
   const result = new Uint8Array(totalLength);
   let offset = 0;
@@ -70,18 +187,544 @@ async function saveStreamToFile(stream: ReadableStream<Uint8Array>, filePath: st
     result.set(chunk, offset);
     offset += chunk.length;
   }
+  return result;
+}
+
+// Derive a path next to an existing file, e.g. clip.wav -> clip_isolated.mp3,
+// numbering it if that name is already taken
+async function generateSiblingPath(filePath: string, suffix: string, extension: string): Promise<string> {
+  const dir = path.dirname(filePath);
+  const base = path.basename(filePath, path.extname(filePath));
+  for (let n = 1; ; n++) {
+    const candidate = path.join(dir, `${base}_${suffix}${n > 1 ? `-${n}` : ""}${extension}`);
+    try {
+      await fs.access(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+}
+
+// Save audio stream to file, wrapping raw PCM/µ-law/A-law in a WAV header.
+// Returns the audio as received, e.g. for estimating its duration
+async function saveStreamToFile(stream: ReadableStream<Uint8Array>, filePath: string, format: OutputFormat = DEFAULT_OUTPUT_FORMAT): Promise<Uint8Array> {
+  const audio = await readStream(stream);
+  await fs.writeFile(filePath, encodeForOutput(format, audio));
+  return audio;
+}
+
+// Local HTTP server that relays streaming generations to the player, started
+// on first use. Resolves to null if it couldn't be started
+let audioServerOrigin: Promise<string | null> | null = null;
+function getAudioServerUrl(): Promise<string | null> {
+  // Only generated files are served, never other files on disk
+  audioServerOrigin ??= startAudioFileServer(() => [getOutputDir()]);
+  return audioServerOrigin;
+}
+
+// Write speech into filePath as it is generated, one request after another,
+// so the player can start from the first bytes. `header`, e.g. an ID3 tag, is
+// written first. `onAccepted` is called as each request is accepted. Resolves
+// once audio starts arriving; `finished` settles with each request's byte
+// count when done
+async function streamSpeechToFile(
+  client: ElevenLabsClient,
+  voiceId: string,
+  requests: ElevenLabs.StreamTextToSpeechRequest[],
+  filePath: string,
+  header: Uint8Array | undefined,
+  onAccepted: (rawResponse: { headers: Headers }, index: number) => void,
+): Promise<{ finished: Promise<number[]> }> {
+  const file = await fs.open(filePath, "w");
+  if (header) await file.write(header);
+  const live = beginLiveFile(filePath);
+  let markStarted = () => {};
+  const started = new Promise<void>((resolve) => {
+    markStarted = resolve;
+  });
+
+  const finished = (async () => {
+    const byteCounts: number[] = [];
+    try {
+      for (const [index, request] of requests.entries()) {
+        const { data, rawResponse } = await client.textToSpeech.stream(voiceId, request).withRawResponse();
+        onAccepted(rawResponse, index);
+        const reader = data.getReader();
+        let bytes = 0;
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (!value?.length) continue;
+          await file.write(value);
+          bytes += value.length;
+          live.update();
+          markStarted();
+        }
+        byteCounts.push(bytes);
+      }
+    } finally {
+      await file.close();
+      live.end();
+    }
+    return byteCounts;
+  })().catch(async (error) => {
+    // Don't leave a truncated file behind
+    await fs.rm(filePath, { force: true });
+    throw error;
+  });
+
+  // Errors before the first bytes, e.g. an unknown voice, fail the tool call
+  await Promise.race([started, finished]);
+  return { finished };
+}
+
+// Chapter title for a chunk of long-form speech
+function chunkChapterTitle(index: number, chunk: string): string {
+  return `${index + 1}. ${chunk.substring(0, 40)}${chunk.length > 40 ? "..." : ""}`;
+}
+
+// Embed the track's metadata in MP3 output, so the file is self-describing
+// outside the player. Other formats are left as they are, and failing to tag
+// doesn't fail the generation
+async function tagGeneratedFile(filePath: string, outputFormat: OutputFormat, tags: AudioTags): Promise<void> {
+  if (!outputFormat.startsWith("mp3_")) return;
+  try {
+    await writeId3Tag(filePath, tags);
+  } catch (error) {
+    console.error(`[ElevenLabs Player] Could not write tags to ${filePath}:`, error);
+  }
+}
+
+// Record a generation in the output directory's library. Failing to record
+// never fails the generation itself
+async function recordGeneration(
+  type: GenerationType,
+  filePath: string,
+  title: string,
+  durationSeconds: number | null,
+  parameters: Record<string, unknown>,
+): Promise<void> {
+  try {
+    await appendLibraryEntry(getOutputDir(), {
+      id: randomUUID(),
+      type,
+      title,
+      file_path: filePath,
+      created_at: new Date().toISOString(),
+      duration_seconds: durationSeconds,
+      parameters,
+    });
+  } catch (error) {
+    console.error("[ElevenLabs Player] Failed to record generation in library:", error);
+  }
+}
+
+// Shared force_regenerate input for the cached generation tools
+const forceRegenerateSchema = z.boolean().optional()
+  .describe("Generate new audio even if an identical request was cached earlier (costs credits again)");
+
+// Cached details of a speech generation, besides the audio itself
+interface SpeechCacheMetadata {
+  chapters: { title: string; start: number }[];
+  alignment?: CharacterAlignment;
+  duration_seconds: number | null;
+}
+
+// Find an identical earlier generation whose output file still exists, so it
+// can be returned instead of a copy. The file is only reused under the title
+// it was tagged with; an explicit output_path always gets its own file
+async function findReusableGeneration<M>(
+  key: string,
+  title: string,
+  force: boolean | undefined,
+  outputPath: string | undefined,
+): Promise<{ filePath: string; metadata: M } | null> {
+  if (force || outputPath || getCacheMaxBytes() === 0) return null;
+  try {
+    const entry = await findCachedOutput<M>(getOutputDir(), key, title);
+    return entry?.output_path ? { filePath: entry.output_path, metadata: entry.metadata } : null;
+  } catch (error) {
+    console.error("[ElevenLabs Player] Failed to read generation cache:", error);
+    return null;
+  }
+}
+
+// Copy the audio of an identical earlier generation to filePath. Returns its
+// cached details, or null on a miss, when forced or when caching is disabled
+async function restoreCachedGeneration<M>(key: string, filePath: string, title: string, force: boolean | undefined): Promise<M | null> {
+  if (force || getCacheMaxBytes() === 0) return null;
+  try {
+    const entry = await restoreFromCache<M>(getOutputDir(), key, filePath, title);
+    return entry?.metadata ?? null;
+  } catch (error) {
+    console.error("[ElevenLabs Player] Failed to read generation cache:", error);
+    return null;
+  }
+}
+
+// Store a generation in the cache. Failing to cache never fails the
+// generation itself
+async function cacheGeneration(key: string, type: GenerationType, filePath: string, title: string, metadata: object): Promise<void> {
+  const maxBytes = getCacheMaxBytes();
+  if (maxBytes === 0) return;
+  try {
+    await storeInCache(getOutputDir(), key, type, filePath, title, { ...metadata }, maxBytes);
+  } catch (error) {
+    console.error("[ElevenLabs Player] Failed to cache generation:", error);
+  }
+}
+
+// A paid call that passed the budget check. Its estimate stays reserved
+// until recordUsage settles it. Each request the API accepts adds its own
+// estimate to `spent` and its reported cost to `charged`, which becomes null
+// once a request doesn't report one
+interface PaidCall {
+  type: GenerationType;
+  estimate: CostEstimate;
+  creditsBefore: number | null;
+  requests: number;
+  spent: CostEstimate;
+  charged: number | null;
+}
+
+// Refuse a paid call that would exceed a configured budget or the account's
+// remaining credits. Otherwise its estimate counts against the budgets until
+// recordUsage settles it, so concurrent calls can't overshoot them together
+async function checkBudget(client: ElevenLabsClient, type: GenerationType, estimate: CostEstimate): Promise<PaidCall> {
+  const entries = [...(await readLedger(getOutputDir())), ...reservedEntries()];
+  const violation = findBudgetViolation(entries, estimate, getBudget());
+  if (violation) {
+    throw new Error(`Budget exceeded: ${violation}. Adjust the budget in the extension settings or use get_usage to review spending`);
+  }
+  // Reserved before any other await, so concurrent checks see each other
+  reserveUsage(type, estimate);
+  const call: PaidCall = {
+    type,
+    estimate,
+    creditsBefore: null,
+    requests: 0,
+    spent: { unit: estimate.unit, amount: 0, credits: 0 },
+    charged: 0,
+  };
+
+  let subscription: ElevenLabs.Subscription;
+  try {
+    subscription = await client.user.subscription.get();
+  } catch (error) {
+    console.error("[ElevenLabs Player] Could not read subscription for quota check:", error);
+    return call;
+  }
+
+  const remaining = subscription.characterLimit - subscription.characterCount;
+  if (estimate.credits > remaining && !subscription.canExtendCharacterLimit) {
+    releaseUsage(estimate);
+    throw new Error(`Insufficient credits: this call needs about ${estimate.credits} credits, but only ${remaining} remain on the account`);
+  }
+  call.creditsBefore = subscription.characterCount;
+  return call;
+}
+
+// Count a request the API accepted towards a paid call, with the estimate
+// for that request alone
+function chargeRequest(call: PaidCall, rawResponse: { headers: Headers }, requestEstimate: CostEstimate): void {
+  call.requests++;
+  call.spent = {
+    unit: call.spent.unit,
+    amount: call.spent.amount + requestEstimate.amount,
+    credits: call.spent.credits + requestEstimate.credits,
+  };
+  const cost = readCharacterCost(rawResponse.headers);
+  call.charged = call.charged !== null && cost !== null ? call.charged + cost : null;
+}
+
+// Settle a paid call: record its accepted requests in the usage ledger and
+// release its reservation. The cost is what the API reported per request;
+// failing that, the change in the account's credit count if no other call
+// was in progress meanwhile, or else the estimate. A failed call is always
+// recorded, covering the requests accepted before it failed
+async function recordUsage(client: ElevenLabsClient, call: PaidCall, failed = false): Promise<void> {
+  const measure = call.requests > 0 ? call.charged === null : failed;
+  let delta: number | null = null;
+  if (measure && call.creditsBefore !== null) {
+    try {
+      const subscription = await client.user.subscription.get();
+      delta = subscription.characterCount - call.creditsBefore;
+    } catch (error) {
+      console.error("[ElevenLabs Player] Could not read subscription to measure usage:", error);
+    }
+  }
+
+  // Other calls in progress would show up in the account's count too
+  const overlapped = releaseUsage(call.estimate);
+  if (call.requests === 0 && !failed) return;
+  const measured = !overlapped && delta !== null && delta > 0 ? delta : null;
+
+  try {
+    await appendLedgerEntry(getOutputDir(), {
+      session_id: SESSION_ID,
+      type: call.type,
+      created_at: new Date().toISOString(),
+      estimate: call.spent,
+      actual_credits: call.requests > 0 ? call.charged ?? measured : measured ?? 0,
+      ...(failed ? { failed: true } : {}),
+    });
+  } catch (error) {
+    console.error("[ElevenLabs Player] Failed to record usage:", error);
+  }
+}
+
+// Per-call voice tuning accepted by the speech tools
+const voiceSettingsShape = {
+  stability: z.number().min(0).max(1).optional().describe("Voice stability, 0-1. Lower is more expressive, higher is more consistent"),
+  similarity_boost: z.number().min(0).max(1).optional().describe("How closely to match the original voice, 0-1"),
+  style: z.number().min(0).max(1).optional().describe("Style exaggeration, 0-1 (0 is fastest)"),
+  use_speaker_boost: z.boolean().optional().describe("Boost similarity to the original speaker"),
+  speed: z.number().min(0.7).max(1.2).optional().describe("Speaking speed, 0.7-1.2 (default: 1.0)"),
+};
+
+interface VoiceSettingsInput {
+  stability?: number;
+  similarity_boost?: number;
+  style?: number;
+  use_speaker_boost?: boolean;
+  speed?: number;
+}
+
+// Merge per-call overrides over the voice's saved settings, so the exact settings
+// used for a generation can be reported back and replayed
+async function resolveVoiceSettings(client: ElevenLabsClient, voiceId: string, overrides: VoiceSettingsInput): Promise<ElevenLabs.VoiceSettings> {
+  let saved: ElevenLabs.VoiceSettings = {};
+  try {
+    saved = await client.voices.settings.get(voiceId);
+  } catch (error) {
+    console.error(`[ElevenLabs Player] Could not fetch settings for voice ${voiceId}:`, error);
+  }
+  return {
+    stability: overrides.stability ?? saved.stability,
+    similarityBoost: overrides.similarity_boost ?? saved.similarityBoost,
+    style: overrides.style ?? saved.style,
+    useSpeakerBoost: overrides.use_speaker_boost ?? saved.useSpeakerBoost,
+    speed: overrides.speed ?? saved.speed,
+  };
+}
+
+// Pronunciation dictionaries applied to a generation, up to the API's limit of three
+const pronunciationDictionariesSchema = z.array(z.object({
+  dictionary_id: z.string().describe("Pronunciation dictionary ID. Use list_pronunciation_dictionaries to find one"),
+  version_id: z.string().optional().describe("Dictionary version (default: the latest)"),
+})).max(3).optional()
+  .describe("Pronunciation dictionaries to apply, in order (max 3). Defaults to the dictionaries configured in ELEVENLABS_PRONUNCIATION_DICTIONARIES; pass [] to use none");
+
+const pronunciationRuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("alias"),
+    string_to_replace: z.string().min(1).describe("Text to match, e.g. a brand name"),
+    alias: z.string().min(1).describe("Text to speak instead, e.g. \"eleven labs\""),
+    case_sensitive: z.boolean().optional().describe("Match case exactly (default: true)"),
+    word_boundaries: z.boolean().optional().describe("Only match whole words (default: true)"),
+  }),
+  z.object({
+    type: z.literal("phoneme"),
+    string_to_replace: z.string().min(1).describe("Text to match, e.g. a brand name"),
+    phoneme: z.string().min(1).describe("Pronunciation in the given alphabet"),
+    alphabet: z.string().describe("Phonetic alphabet: ipa or cmu-arpabet. Phoneme rules are only supported by some models"),
+    case_sensitive: z.boolean().optional().describe("Match case exactly (default: true)"),
+    word_boundaries: z.boolean().optional().describe("Only match whole words (default: true)"),
+  }),
+]);
+
+function toDictionaryRule(rule: PronunciationRule): ElevenLabs.pronunciationDictionaries.PronunciationDictionaryRule {
+  const common = {
+    stringToReplace: rule.string_to_replace,
+    caseSensitive: rule.case_sensitive,
+    wordBoundaries: rule.word_boundaries,
+  };
+  return rule.type === "alias"
+    ? { type: "alias", ...common, alias: rule.alias }
+    : { type: "phoneme", ...common, phoneme: rule.phoneme, alphabet: rule.alphabet };
+}
+
+function fromDictionaryRule(rule: ElevenLabs.GetPronunciationDictionaryWithRulesResponseModelRulesItem): PronunciationRule {
+  const common = {
+    string_to_replace: rule.stringToReplace,
+    case_sensitive: rule.caseSensitive,
+    word_boundaries: rule.wordBoundaries,
+  };
+  return rule.type === "alias"
+    ? { type: "alias", ...common, alias: rule.alias }
+    : { type: "phoneme", ...common, phoneme: rule.phoneme, alphabet: rule.alphabet };
+}
+
+// Pin each dictionary to a version, so the settings reported for a generation
+// (and its cache key) name the exact rules that were applied. Returns undefined
+// when no dictionaries apply
+async function resolvePronunciationDictionaries(
+  client: ElevenLabsClient,
+  requested: DictionaryReference[] | undefined,
+): Promise<Required<DictionaryReference>[] | undefined> {
+  const dictionaries = requested ?? getDefaultDictionaries();
+  if (dictionaries.length === 0) return undefined;
+  if (dictionaries.length > 3) {
+    throw new Error("At most 3 pronunciation dictionaries can be applied to a generation");
+  }
+  return Promise.all(dictionaries.map(async ({ dictionary_id, version_id }) => ({
+    dictionary_id,
+    version_id: version_id ?? (await client.pronunciationDictionaries.get(dictionary_id)).latestVersionId,
+  })));
+}
+
+function toDictionaryLocators(dictionaries: Required<DictionaryReference>[] | undefined): ElevenLabs.PronunciationDictionaryVersionLocator[] | undefined {
+  return dictionaries?.map((d) => ({ pronunciationDictionaryId: d.dictionary_id, versionId: d.version_id }));
+}
+
+// Composition plan for generate_music, in tool-facing field names
+const compositionPlanSchema = z.object({
+  positive_global_styles: z.array(z.string()).describe("Styles for the whole song, e.g. genre, mood, instruments"),
+  negative_global_styles: z.array(z.string()).optional().describe("Styles to avoid across the whole song"),
+  sections: z.array(z.object({
+    name: z.string().describe("Section name, e.g. Intro, Verse 1, Chorus"),
+    duration_seconds: z.number().min(3).max(120).describe("Section length in seconds, 3-120"),
+    positive_styles: z.array(z.string()).optional().describe("Styles for this section"),
+    negative_styles: z.array(z.string()).optional().describe("Styles to avoid in this section"),
+    lines: z.array(z.string()).optional().describe("Lyrics for this section, one entry per line"),
+  })).min(1).describe("Ordered song sections"),
+});
+
+type CompositionPlanInput = z.infer<typeof compositionPlanSchema>;
+
+function toMusicPrompt(plan: CompositionPlanInput): ElevenLabs.MusicPrompt {
+  return {
+    positiveGlobalStyles: plan.positive_global_styles,
+    negativeGlobalStyles: plan.negative_global_styles ?? [],
+    sections: plan.sections.map((section) => ({
+      sectionName: section.name,
+      durationMs: Math.round(section.duration_seconds * 1000),
+      positiveLocalStyles: section.positive_styles ?? [],
+      negativeLocalStyles: section.negative_styles ?? [],
+      lines: section.lines ?? [],
+    })),
+  };
+}
 
-  await fs.writeFile(filePath, result);
+function fromMusicPrompt(prompt: ElevenLabs.MusicPrompt): CompositionPlanInput {
+  return {
+    positive_global_styles: prompt.positiveGlobalStyles,
+    negative_global_styles: prompt.negativeGlobalStyles,
+    sections: prompt.sections.map((section) => ({
+      name: section.sectionName,
+      duration_seconds: section.durationMs / 1000,
+      positive_styles: section.positiveLocalStyles,
+      negative_styles: section.negativeLocalStyles,
+      lines: section.lines,
+    })),
+  };
 }
 
 async function readAudioAsDataUrl(filePath: string): Promise<string> {
-  const ext = path.extname(filePath).toLowerCase();
-  const mimeType = MIME_TYPES[ext] ?? "audio/mpeg";
+  const mimeType = await getAudioMimeType(filePath);
   const buffer = await fs.readFile(filePath);
   const base64 = buffer.toString("base64");
   return `data:${mimeType};base64,${base64}`;
 }
 
+async function fetchAudioAsDataUrl(url: string): Promise<string> {
+  const parsed = new URL(url);
+  const isPreviewHost = parsed.protocol === "https:" && VOICE_PREVIEW_HOSTS.has(parsed.hostname);
+  if (parsed.origin !== ELEVENLABS_API_ORIGIN && !isPreviewHost) {
+    throw new Error(`Only ElevenLabs API and voice preview URLs can be loaded, not ${parsed.origin}`);
+  }
+
+  // Voice samples are only downloadable with the account's API key
+  const headers: Record<string, string> = {};
+  if (parsed.origin === ELEVENLABS_API_ORIGIN && process.env.ELEVENLABS_API_KEY) {
+    headers["xi-api-key"] = process.env.ELEVENLABS_API_KEY;
+  }
+
+  // Redirects could lead anywhere, so they aren't followed
+  const response = await fetch(parsed, { headers, redirect: "error" });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+
+  const tooLarge = `Audio is larger than ${MAX_REMOTE_AUDIO_BYTES / (1024 * 1024)} MB`;
+  if (Number(response.headers.get("content-length")) > MAX_REMOTE_AUDIO_BYTES) {
+    await response.body?.cancel();
+    throw new Error(tooLarge);
+  }
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      size += result.value.length;
+      if (size > MAX_REMOTE_AUDIO_BYTES) {
+        await reader.cancel();
+        throw new Error(tooLarge);
+      }
+      chunks.push(result.value);
+    }
+  }
+  const buffer = Buffer.concat(chunks);
+  const mimeType = sniffAudioFormat(buffer)?.mimeType
+    || response.headers.get("content-type")?.split(";")[0]
+    || getFormatByExtension(parsed.pathname)?.mimeType
+    || "audio/mpeg";
+  return `data:${mimeType};base64,${buffer.toString("base64")}`;
+}
+
+// A local file to queue, with any title, artist or album given for it
+type QueueEntry = SourceEntry & { album?: string };
+
+// Build player tracks from queue entries. Values given by the caller or a
+// playlist take precedence over the files' embedded metadata.
+async function toPlayerTracks(entries: QueueEntry[]) {
+  const batchId = Date.now();
+  const metadata = await mapWithConcurrency(entries, 4, (entry) => readAudioMetadata(entry.filePath));
+  let artworkBytes = 0;
+  return entries.map((entry, i) => {
+    const { artwork, ...embedded } = metadata[i];
+    const keepArtwork = artwork !== undefined && artworkBytes + artwork.length <= MAX_QUEUE_ARTWORK_BYTES;
+    if (keepArtwork) artworkBytes += artwork.length;
+    return {
+      id: `${batchId}-${i}`,
+      filePath: entry.filePath,
+      title: entry.title ?? embedded.title ?? path.basename(entry.filePath, path.extname(entry.filePath)),
+      artist: entry.artist ?? embedded.artist,
+      album: entry.album ?? embedded.album,
+      duration: embedded.duration_seconds,
+      artwork: keepArtwork ? artwork : undefined,
+    };
+  });
+}
+
+// Leave out files found in sources that the player can't decode, collecting
+// the reasons in `rejected`. Fails if nothing playable is left.
+async function filterPlayable(entries: QueueEntry[], rejected: string[]): Promise<QueueEntry[]> {
+  const playable: QueueEntry[] = [];
+  for (const entry of entries) {
+    try {
+      await checkPlayable(entry.filePath);
+      playable.push(entry);
+    } catch (error) {
+      rejected.push(error instanceof Error ? error.message : `Can't play ${entry.filePath}`);
+    }
+  }
+  if (playable.length === 0 && entries.length > 0) {
+    throw new Error(`No playable audio found. ${rejected.join("; ")}`);
+  }
+  return playable;
+}
+
+// Describe a queue that was cut off or had files left out
+function describeQueueNotes(truncated: boolean, limit: number, skipped: string[], rejected: string[]): string {
+  const notes = [
+    truncated ? ` (limited to ${limit})` : "",
+    skipped.length > 0 ? `. Skipped ${skipped.length} playlist entr${skipped.length === 1 ? "y" : "ies"} that are missing, remote or not supported audio: ${skipped.join(", ")}` : "",
+    rejected.length > 0 ? `. Skipped ${rejected.length} file(s) the player can't decode: ${rejected.join("; ")}` : "",
+  ];
+  return notes.join("");
+}
+
 const server = new McpServer({
   name: "ElevenLabs Player",
   version: "1.0.0",
@@ -92,13 +735,17 @@ server.registerTool(
   "play_audio",
   {
     title: "Play Audio",
-    description: "Plays existing local audio files. Only use this for files that already exist on disk - do NOT use after generate_tts, generate_sound_effect, or generate_music (those already show the player).",
+    description: "Plays existing local audio files, given as individual tracks or as sources: directories, glob patterns (e.g. ~/Sounds/foley/**/*.wav) or M3U/M3U8/PLS playlists. Title, artist, album, duration and cover art are read from the files' embedded metadata (ID3, Vorbis comments, MP4 and RIFF INFO tags) unless given. Files the player can't decode, such as AIFF, are rejected with the reason. Only use this for files that already exist on disk - do NOT use after generate_tts, generate_sound_effect, or generate_music (those already show the player).",
     inputSchema: {
       tracks: z.array(z.object({
         filePath: z.string().describe("Absolute path to the audio file"),
-        title: z.string().describe("Display title for the track"),
-        artist: z.string().optional().describe("Optional artist name"),
-      })).describe("Array of tracks to add to the queue"),
+        title: z.string().optional().describe("Display title for the track. Defaults to the file's embedded title, then its file name"),
+        artist: z.string().optional().describe("Artist name. Defaults to the file's embedded artist"),
+        album: z.string().optional().describe("Album name. Defaults to the file's embedded album"),
+      })).optional().describe("Array of tracks to add to the queue"),
+      sources: z.array(z.string()).optional().describe("Directories, glob patterns or M3U/M3U8/PLS playlist files to add, e.g. ~/Sounds/foley. Expanded to the supported audio files they contain, sorted by path; playlists keep their own order. Added after tracks"),
+      recursive: z.boolean().optional().describe("Include subdirectories of directory sources (default: false)"),
+      max_tracks: z.number().int().min(1).max(MAX_PLAY_TRACKS).optional().describe(`Maximum number of tracks to add (default and limit: ${MAX_PLAY_TRACKS})`),
     },
     annotations: {
       title: "Play Audio",
@@ -109,31 +756,50 @@ server.registerTool(
     },
     _meta: { ui: { resourceUri: RESOURCE_URI } },
   },
-  async ({ tracks }) => {
-    const validatedTracks = [];
-    const batchId = Date.now();
+  async ({ tracks = [], sources = [], recursive, max_tracks = MAX_PLAY_TRACKS }) => {
+    if (tracks.length === 0 && sources.length === 0) {
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: "Either tracks or sources is required" }],
+      };
+    }
 
-    for (let i = 0; i < tracks.length; i++) {
-      const track = tracks[i];
-      const absolutePath = path.resolve(track.filePath);
-      try {
-        await fs.access(absolutePath);
-        validatedTracks.push({
-          id: `${batchId}-${i}`,
-          filePath: absolutePath,
-          title: track.title,
-          artist: track.artist,
+    const entries: QueueEntry[] = [];
+    const skipped: string[] = [];
+    const rejected: string[] = [];
+    let truncated = tracks.length > max_tracks;
+    try {
+      // Files asked for by name must all be playable
+      for (const track of tracks.slice(0, max_tracks)) {
+        const filePath = await resolveExistingFile(track.filePath);
+        await checkPlayable(filePath);
+        entries.push({ ...track, filePath });
+      }
+      for (const source of sources) {
+        if (entries.length >= max_tracks) {
+          truncated = true;
+          break;
+        }
+        const expanded = await expandAudioSource(source, {
+          extensions: AUDIO_EXTENSIONS,
+          limit: max_tracks - entries.length,
+          recursive,
         });
-      } catch {
-        return {
-          isError: true as const,
-          content: [{ type: "text" as const, text: `File not found: ${absolutePath}` }],
-        };
+        entries.push(...await filterPlayable(expanded.entries, rejected));
+        skipped.push(...expanded.skipped);
+        truncated ||= expanded.truncated;
       }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: message }],
+      };
     }
 
+    const validatedTracks = await toPlayerTracks(entries);
     return {
-      content: [{ type: "text" as const, text: `Added ${validatedTracks.length} track(s) to queue` }],
+      content: [{ type: "text" as const, text: `Added ${validatedTracks.length} track(s) to queue${describeQueueNotes(truncated, max_tracks, skipped, rejected)}` }],
       structuredContent: { tracks: validatedTracks },
     };
   }
@@ -144,23 +810,49 @@ server.registerTool(
   "load_audio",
   {
     title: "Load Audio",
-    description: "Loads audio data for a single file. Called by the player UI when playback starts.",
+    description: "Loads audio data for a single file or remote preview URL. Remote URLs are limited to the ElevenLabs API and its voice preview storage. Called by the player UI when playback starts.",
     inputSchema: {
-      filePath: z.string().describe("Absolute path to the audio file to load"),
+      filePath: z.string().optional().describe("Absolute path to the audio file to load"),
+      url: z.string().url().optional().describe("Remote audio URL to load: an ElevenLabs API or voice preview URL"),
     },
     annotations: {
       title: "Load Audio",
       readOnlyHint: true,
       destructiveHint: false,
       idempotentHint: true,
-      openWorldHint: false,
+      openWorldHint: true,
     },
     _meta: { ui: { resourceUri: RESOURCE_URI } },
   },
-  async ({ filePath }) => {
+  async ({ filePath, url }) => {
+    if (url) {
+      try {
+        const dataUrl = await fetchAudioAsDataUrl(url);
+        return {
+          content: [{ type: "text" as const, text: "Audio loaded" }],
+          structuredContent: { dataUrl },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return {
+          isError: true as const,
+          content: [{ type: "text" as const, text: `Failed to load ${url}: ${message}` }],
+        };
+      }
+    }
+
+    if (!filePath) {
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: "Either filePath or url is required" }],
+      };
+    }
+
     const absolutePath = path.resolve(filePath);
     try {
       await fs.access(absolutePath);
+      // Speech that is still streaming in is loaded once complete
+      await waitForLiveFile(absolutePath);
       const dataUrl = await readAudioAsDataUrl(absolutePath);
       return {
         content: [{ type: "text" as const, text: "Audio loaded" }],
@@ -175,174 +867,1503 @@ server.registerTool(
   }
 );
 
-// Register generate_tts tool
+// Register save_playlist tool
 server.registerTool(
-  "generate_tts",
+  "save_playlist",
   {
-    title: "Generate Speech",
-    description: "Generates AND plays speech audio from text using ElevenLabs. This tool both generates and plays the audio - calling play_audio afterwards is redundant and will show a duplicate player. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    title: "Save Playlist",
+    description: "Saves an ordered list of local audio files as a named M3U8 playlist in the playlists folder of the output directory, so it can be reopened later with load_playlist. The player's Save queue action uses this.",
     inputSchema: {
-      text: z.string().describe("The text to convert to speech"),
-      voice_id: z.string().optional().describe("ElevenLabs voice ID (default: Juniper)"),
-      model_id: z.string().optional().describe("Model ID (default: eleven_v3)"),
-      title: z.string().optional().describe("Display title for the track"),
+      name: z.string().min(1).describe("Playlist name, used as the file name"),
+      tracks: z.array(z.object({
+        filePath: z.string().describe("Absolute path to the audio file"),
+        title: z.string().optional().describe("Display title. Defaults to the file's embedded title, then its file name"),
+        artist: z.string().optional().describe("Artist name. Defaults to the file's embedded artist"),
+      })).min(1).max(MAX_PLAYLIST_TRACKS).describe(`Tracks in playlist order (up to ${MAX_PLAYLIST_TRACKS})`),
+      overwrite: z.boolean().optional().describe("Replace an existing playlist with the same name (default: false)"),
     },
     annotations: {
-      title: "Generate Speech",
+      title: "Save Playlist",
       readOnlyHint: false,
-      destructiveHint: false,
+      destructiveHint: true,
       idempotentHint: false,
-      openWorldHint: true,
+      openWorldHint: false,
     },
-    _meta: { ui: { resourceUri: RESOURCE_URI } },
   },
-  async ({ text, voice_id, model_id, title }) => {
+  async ({ name, tracks, overwrite }) => {
     try {
-      const client = getClient();
-      const response = await client.textToSpeech.convert(voice_id || DEFAULT_VOICE_ID, {
-        text,
-        modelId: model_id || DEFAULT_MODEL_ID,
-      });
-
-      const outputDir = getOutputDir();
-      await fs.mkdir(outputDir, { recursive: true });
-      const filename = generateFilename("tts", ".mp3");
-      const filePath = path.join(outputDir, filename);
-
-      await saveStreamToFile(response, filePath);
-
-      const trackTitle = title || `Speech: ${text.substring(0, 50)}${text.length > 50 ? "..." : ""}`;
-      const batchId = Date.now();
+      const entries: QueueEntry[] = [];
+      for (const track of tracks) {
+        entries.push({ ...track, filePath: await resolveExistingFile(track.filePath) });
+      }
+      const playlistTracks = await toPlayerTracks(entries);
+      const playlistPath = await savePlaylist(getOutputDir(), name, playlistTracks, overwrite);
 
       return {
-        content: [{ type: "text" as const, text: `Generated speech saved to ${filePath}` }],
-        structuredContent: {
-          tracks: [{
-            id: `${batchId}-0`,
-            filePath,
-            title: trackTitle,
-            artist: "ElevenLabs TTS",
-          }],
-        },
+        content: [{ type: "text" as const, text: `Saved playlist "${name}" with ${playlistTracks.length} track(s) to ${playlistPath}` }],
+        structuredContent: { name, path: playlistPath, track_count: playlistTracks.length },
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       return {
         isError: true as const,
-        content: [{ type: "text" as const, text: `Failed to generate speech: ${message}` }],
+        content: [{ type: "text" as const, text: `Failed to save playlist: ${message}` }],
       };
     }
   }
 );
 
-// Register generate_sound_effect tool
+// Register load_playlist tool
 server.registerTool(
-  "generate_sound_effect",
+  "load_playlist",
   {
-    title: "Generate Sound Effect",
-    description: "Generates AND plays a sound effect from a text prompt using ElevenLabs. This tool both generates and plays the audio - calling play_audio afterwards is redundant and will show a duplicate player. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    title: "Load Playlist",
+    description: "Opens a saved playlist from the playlists folder in the player. Use list_playlists to see the saved playlists.",
     inputSchema: {
-      prompt: z.string().describe("Description of the sound effect to generate"),
-      duration_seconds: z.number().optional().describe("Duration in seconds (optional)"),
-      title: z.string().optional().describe("Display title for the track"),
+      name: z.string().min(1).describe("Playlist name, as shown by list_playlists"),
     },
     annotations: {
-      title: "Generate Sound Effect",
-      readOnlyHint: false,
+      title: "Load Playlist",
+      readOnlyHint: true,
       destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
     },
     _meta: { ui: { resourceUri: RESOURCE_URI } },
   },
-  async ({ prompt, duration_seconds, title }) => {
+  async ({ name }) => {
     try {
-      const client = getClient();
-      const response = await client.textToSoundEffects.convert({
-        text: prompt,
-        durationSeconds: duration_seconds,
+      const playlistPath = await findPlaylist(getOutputDir(), name);
+      const expanded = await expandAudioSource(playlistPath, {
+        extensions: AUDIO_EXTENSIONS,
+        limit: MAX_PLAY_TRACKS,
       });
+      const rejected: string[] = [];
+      const tracks = await toPlayerTracks(await filterPlayable(expanded.entries, rejected));
 
-      const outputDir = getOutputDir();
-      await fs.mkdir(outputDir, { recursive: true });
-      const filename = generateFilename("sfx", ".mp3");
-      const filePath = path.join(outputDir, filename);
-
-      await saveStreamToFile(response, filePath);
+      return {
+        content: [{ type: "text" as const, text: `Loaded playlist "${name}" with ${tracks.length} track(s)${describeQueueNotes(expanded.truncated, MAX_PLAY_TRACKS, expanded.skipped, rejected)}` }],
+        structuredContent: { name, path: playlistPath, tracks },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to load playlist: ${message}` }],
+      };
+    }
+  }
+);
 
-      const trackTitle = title || `SFX: ${prompt.substring(0, 50)}${prompt.length > 50 ? "..." : ""}`;
-      const batchId = Date.now();
+// Register list_playlists tool
+server.registerTool(
+  "list_playlists",
+  {
+    title: "List Playlists",
+    description: "Lists the saved playlists in the playlists folder of the output directory, with their track counts.",
+    inputSchema: {},
+    annotations: {
+      title: "List Playlists",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  async () => {
+    try {
+      const playlists = await listPlaylists(getOutputDir());
+      const text = playlists.length === 0
+        ? `No saved playlists in ${getPlaylistsDir(getOutputDir())}`
+        : playlists.map((p) => `- ${p.name} (${p.track_count} track${p.track_count === 1 ? "" : "s"}, saved ${p.modified})`).join("\n");
 
       return {
-        content: [{ type: "text" as const, text: `Generated sound effect saved to ${filePath}` }],
-        structuredContent: {
-          tracks: [{
-            id: `${batchId}-0`,
-            filePath,
-            title: trackTitle,
-            artist: "ElevenLabs SFX",
-          }],
-        },
+        content: [{ type: "text" as const, text }],
+        structuredContent: { playlists },
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       return {
         isError: true as const,
-        content: [{ type: "text" as const, text: `Failed to generate sound effect: ${message}` }],
+        content: [{ type: "text" as const, text: `Failed to list playlists: ${message}` }],
       };
     }
   }
 );
 
-// Register generate_music tool
+// Register list_voices tool
 server.registerTool(
-  "generate_music",
+  "list_voices",
   {
-    title: "Generate Music",
-    description: "Generates AND plays music from a text prompt using ElevenLabs. This tool both generates and plays the audio - calling play_audio afterwards is redundant and will show a duplicate player. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    title: "List Voices",
+    description: "Searches the ElevenLabs voice library available to the user's account and shows each voice's preview in the player. Use this to find a voice_id for generate_tts.",
     inputSchema: {
-      prompt: z.string().describe("Description of the music to generate (genre, mood, instruments, etc.)"),
-      duration_seconds: z.number().optional().describe("Duration in seconds (default: model chooses based on prompt)"),
-      instrumental: z.boolean().optional().describe("Force instrumental only (no vocals)"),
-      title: z.string().optional().describe("Display title for the track"),
+      search: z.string().optional().describe("Search term matched against voice name, description and labels"),
+      gender: z.string().optional().describe("Filter by gender label (e.g. female, male, neutral)"),
+      accent: z.string().optional().describe("Filter by accent label (e.g. american, british)"),
+      language: z.string().optional().describe("Filter by language code (e.g. en, de)"),
+      category: z.enum(["premade", "cloned", "generated", "professional"]).optional().describe("Filter by voice category"),
+      use_case: z.string().optional().describe("Filter by use case label (e.g. narration, conversational)"),
+      page_size: z.number().int().min(1).max(100).optional().describe("Maximum number of voices to return (default: 20)"),
+      page_token: z.string().optional().describe("Token from a previous call to fetch the next page"),
     },
     annotations: {
-      title: "Generate Music",
-      readOnlyHint: false,
+      title: "List Voices",
+      readOnlyHint: true,
       destructiveHint: false,
-      idempotentHint: false,
+      idempotentHint: true,
       openWorldHint: true,
     },
     _meta: { ui: { resourceUri: RESOURCE_URI } },
   },
-  async ({ prompt, duration_seconds, instrumental, title }) => {
+  async ({ search, gender, accent, language, category, use_case, page_size, page_token }) => {
     try {
       const client = getClient();
-      const response = await client.music.compose({
-        prompt,
-        musicLengthMs: duration_seconds ? duration_seconds * 1000 : undefined,
-        forceInstrumental: instrumental,
+      const response = await client.voices.search({
+        search,
+        gender,
+        accent,
+        language,
+        category,
+        useCases: use_case,
+        pageSize: page_size ?? 20,
+        nextPageToken: page_token,
       });
 
-      const outputDir = getOutputDir();
-      await fs.mkdir(outputDir, { recursive: true });
-      const filename = generateFilename("music", ".mp3");
-      const filePath = path.join(outputDir, filename);
-
-      await saveStreamToFile(response, filePath);
+      const voices = response.voices.map((voice) => {
+        const sample = voice.samples?.find((s) => s.sampleId);
+        const previewUrl = voice.previewUrl
+          ?? (sample ? `${ELEVENLABS_API_BASE_URL}/v1/voices/${voice.voiceId}/samples/${sample.sampleId}/audio` : undefined);
+        return {
+          voice_id: voice.voiceId,
+          name: voice.name ?? voice.voiceId,
+          category: voice.category,
+          description: voice.description,
+          gender: voice.labels?.gender,
+          accent: voice.labels?.accent,
+          age: voice.labels?.age,
+          language: voice.labels?.language,
+          use_case: voice.labels?.use_case,
+          preview_url: previewUrl,
+        };
+      });
 
-      const trackTitle = title || `Music: ${prompt.substring(0, 50)}${prompt.length > 50 ? "..." : ""}`;
       const batchId = Date.now();
+      const tracks = voices
+        .filter((voice) => voice.preview_url)
+        .map((voice, i) => ({
+          id: `${batchId}-${i}`,
+          url: voice.preview_url,
+          title: `Voice: ${voice.name}`,
+          artist: [voice.voice_id, voice.gender, voice.accent].filter(Boolean).join(" · "),
+        }));
+
+      const summary = voices.length === 0
+        ? "No voices matched the given filters"
+        : voices.map((v) => `- ${v.name} (${v.voice_id})${v.description ? `: ${v.description}` : ""}`).join("\n");
 
       return {
-        content: [{ type: "text" as const, text: `Generated music saved to ${filePath}` }],
+        content: [{ type: "text" as const, text: `Found ${voices.length} voice(s)${response.hasMore ? " (more available)" : ""}:\n${summary}` }],
         structuredContent: {
-          tracks: [{
+          voices,
+          hasMore: response.hasMore,
+          nextPageToken: response.nextPageToken,
+          tracks,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to list voices: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register design_voice tool
+server.registerTool(
+  "design_voice",
+  {
+    title: "Design Voice",
+    description: "Generates candidate voices from a natural-language description and plays each preview in the player. Use save_designed_voice with the chosen generated_voice_id to add it to the account. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      description: z.string().min(20).max(1000).describe("Description of the voice, e.g. age, accent, tone, pacing and character"),
+      text: z.string().min(100).max(1000).optional().describe("Sample text the previews speak, 100-1000 characters (default: generated to suit the description)"),
+      model_id: z.enum(["eleven_multilingual_ttv_v2", "eleven_ttv_v3"]).optional().describe("Voice design model (default: eleven_multilingual_ttv_v2)"),
+      guidance_scale: z.number().min(0).max(100).optional().describe("How closely to follow the description. Higher values can sound robotic"),
+      loudness: z.number().min(-1).max(1).optional().describe("Preview loudness, -1 to 1 (0 is roughly -24 LUFS)"),
+      seed: z.number().int().min(0).optional().describe("Seed for reproducible previews"),
+    },
+    annotations: {
+      title: "Design Voice",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ description, text, model_id, guidance_scale, loudness, seed }) => {
+    try {
+      const client = getClient();
+      const outputFormat = DEFAULT_OUTPUT_FORMAT;
+      const response = await client.textToVoice.design({
+        outputFormat,
+        voiceDescription: description,
+        modelId: model_id,
+        text,
+        autoGenerateText: text === undefined,
+        guidanceScale: guidance_scale,
+        loudness,
+        seed,
+      });
+
+      const batchId = Date.now();
+
+      const previews = [];
+      const tracks = [];
+      for (let i = 0; i < response.previews.length; i++) {
+        const preview = response.previews[i];
+        // One {type} for all candidates; the number leads the title so
+        // {title-slug} keeps it
+        const filePath = await allocateGenerationPath("voice_preview", getOutputExtension(outputFormat), {
+          title: `Candidate ${i + 1} ${description}`,
+        });
+        try {
+          await fs.writeFile(filePath, encodeForOutput(outputFormat, Buffer.from(preview.audioBase64, "base64")));
+        } finally {
+          releaseOutputPath(filePath);
+        }
+        await recordGeneration("voice_preview", filePath, `Voice candidate ${i + 1}`, preview.durationSecs, {
+          description,
+          text: response.text,
+          model_id,
+          guidance_scale,
+          loudness,
+          seed,
+          generated_voice_id: preview.generatedVoiceId,
+          output_format: outputFormat,
+        });
+
+        previews.push({
+          generated_voice_id: preview.generatedVoiceId,
+          duration_seconds: preview.durationSecs,
+          language: preview.language,
+          filePath,
+        });
+        tracks.push({
+          id: `${batchId}-${i}`,
+          filePath,
+          title: `Voice candidate ${i + 1}`,
+          artist: preview.generatedVoiceId,
+        });
+      }
+
+      const summary = previews.map((p, i) => `- Candidate ${i + 1}: generated_voice_id ${p.generated_voice_id}`).join("\n");
+
+      return {
+        content: [{ type: "text" as const, text: `Generated ${previews.length} voice candidate(s) speaking: "${response.text}"\n${summary}` }],
+        structuredContent: {
+          description,
+          text: response.text,
+          previews,
+          tracks,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to design voice: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register save_designed_voice tool
+server.registerTool(
+  "save_designed_voice",
+  {
+    title: "Save Designed Voice",
+    description: "Turns a preview from design_voice into a permanent voice in the user's ElevenLabs account, returning its voice_id for use with generate_tts.",
+    inputSchema: {
+      generated_voice_id: z.string().describe("generated_voice_id of the chosen preview from design_voice"),
+      name: z.string().describe("Name for the new voice"),
+      description: z.string().min(20).max(1000).describe("Description for the new voice, usually the one passed to design_voice"),
+      labels: z.record(z.string()).optional().describe("Optional labels, e.g. { \"accent\": \"british\", \"use_case\": \"characters\" }"),
+      rejected_voice_ids: z.array(z.string()).optional().describe("generated_voice_ids of the candidates that were played but not chosen"),
+    },
+    annotations: {
+      title: "Save Designed Voice",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  },
+  async ({ generated_voice_id, name, description, labels, rejected_voice_ids }) => {
+    try {
+      const client = getClient();
+      const voice = await client.textToVoice.create({
+        voiceName: name,
+        voiceDescription: description,
+        generatedVoiceId: generated_voice_id,
+        labels,
+        playedNotSelectedVoiceIds: rejected_voice_ids,
+      });
+
+      return {
+        content: [{ type: "text" as const, text: `Saved voice "${voice.name ?? name}" with voice_id ${voice.voiceId}` }],
+        structuredContent: {
+          voice_id: voice.voiceId,
+          name: voice.name ?? name,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to save designed voice: ${message}` }],
+      };
+    }
+  }
+);
+
+// Describe a rule in one line for tool output
+function formatPronunciationRule(rule: PronunciationRule): string {
+  return rule.type === "alias"
+    ? `"${rule.string_to_replace}" → "${rule.alias}"`
+    : `"${rule.string_to_replace}" → /${rule.phoneme}/ (${rule.alphabet})`;
+}
+
+// Register create_pronunciation_dictionary tool
+server.registerTool(
+  "create_pronunciation_dictionary",
+  {
+    title: "Create Pronunciation Dictionary",
+    description: "Creates a pronunciation dictionary in the user's ElevenLabs account from alias and phoneme rules, a local PLS lexicon file, or both. Pass the returned dictionary_id to generate_tts, generate_tts_batch or generate_dialogue to fix how brand names and jargon are read.",
+    inputSchema: {
+      name: z.string().min(1).describe("Name of the dictionary"),
+      description: z.string().optional().describe("Description of the dictionary"),
+      rules: z.array(pronunciationRuleSchema).optional().describe("Alias and phoneme rules. Required unless pls_file_path is given"),
+      pls_file_path: z.string().optional().describe("Absolute path to a W3C PLS lexicon (.pls) to import rules from"),
+    },
+    annotations: {
+      title: "Create Pronunciation Dictionary",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  },
+  async ({ name, description, rules, pls_file_path }) => {
+    try {
+      const imported = pls_file_path ? await readPlsFile(await resolveExistingFile(pls_file_path)) : [];
+      // Explicit rules come last, so they override imported rules for the same text
+      const allRules = [...imported, ...(rules ?? [])];
+      if (allRules.length === 0) {
+        throw new Error("Provide rules or a pls_file_path");
+      }
+
+      const client = getClient();
+      const dictionary = await client.pronunciationDictionaries.createFromRules({
+        name,
+        description,
+        rules: allRules.map(toDictionaryRule),
+      });
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Created pronunciation dictionary "${dictionary.name}" with ${dictionary.versionRulesNum} rule(s): dictionary_id ${dictionary.id}, version_id ${dictionary.versionId}`,
+        }],
+        structuredContent: {
+          dictionary_id: dictionary.id,
+          version_id: dictionary.versionId,
+          name: dictionary.name,
+          rule_count: dictionary.versionRulesNum,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to create pronunciation dictionary: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register list_pronunciation_dictionaries tool
+server.registerTool(
+  "list_pronunciation_dictionaries",
+  {
+    title: "List Pronunciation Dictionaries",
+    description: "Lists the pronunciation dictionaries in the user's ElevenLabs account, or shows the rules of one dictionary when dictionary_id is given.",
+    inputSchema: {
+      dictionary_id: z.string().optional().describe("Show this dictionary and its rules instead of listing all dictionaries"),
+      include_archived: z.boolean().optional().describe("Include archived dictionaries (default: false)"),
+      page_size: z.number().int().min(1).max(100).optional().describe("Maximum number of dictionaries to return (default: 30)"),
+      cursor: z.string().optional().describe("Cursor from a previous call to fetch the next page"),
+    },
+    annotations: {
+      title: "List Pronunciation Dictionaries",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ dictionary_id, include_archived, page_size, cursor }) => {
+    try {
+      const client = getClient();
+
+      if (dictionary_id) {
+        const dictionary = await client.pronunciationDictionaries.get(dictionary_id);
+        const rules = dictionary.rules.map(fromDictionaryRule);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `"${dictionary.name}" (${dictionary.id}), version ${dictionary.latestVersionId}, ${rules.length} rule(s):\n`
+              + rules.map((rule) => `- ${formatPronunciationRule(rule)}`).join("\n"),
+          }],
+          structuredContent: {
+            dictionary_id: dictionary.id,
+            version_id: dictionary.latestVersionId,
+            name: dictionary.name,
+            description: dictionary.description,
+            archived: dictionary.archivedTimeUnix !== undefined,
+            rules,
+          },
+        };
+      }
+
+      const response = await client.pronunciationDictionaries.list({
+        cursor,
+        pageSize: page_size ?? 30,
+        includeArchived: include_archived,
+      });
+      const dictionaries = response.pronunciationDictionaries.map((dictionary) => ({
+        dictionary_id: dictionary.id,
+        version_id: dictionary.latestVersionId,
+        name: dictionary.name,
+        description: dictionary.description,
+        rule_count: dictionary.latestVersionRulesNum,
+        archived: dictionary.archivedTimeUnix !== undefined,
+      }));
+
+      const summary = dictionaries.length === 0
+        ? "No pronunciation dictionaries found"
+        : dictionaries.map((d) => `- ${d.name} (${d.dictionary_id}): ${d.rule_count} rule(s)${d.archived ? ", archived" : ""}`).join("\n");
+
+      return {
+        content: [{ type: "text" as const, text: `Found ${dictionaries.length} dictionary(ies)${response.hasMore ? " (more available)" : ""}:\n${summary}` }],
+        structuredContent: {
+          dictionaries,
+          hasMore: response.hasMore,
+          nextCursor: response.nextCursor,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to list pronunciation dictionaries: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register update_pronunciation_dictionary tool
+server.registerTool(
+  "update_pronunciation_dictionary",
+  {
+    title: "Update Pronunciation Dictionary",
+    description: "Updates a pronunciation dictionary: replaces its rules (from a list or a local PLS lexicon file), removes rules, adds or overwrites rules, renames it, or archives it. Rule changes create a new dictionary version, which generations use by default.",
+    inputSchema: {
+      dictionary_id: z.string().describe("Pronunciation dictionary ID"),
+      replace_rules: z.array(pronunciationRuleSchema).optional().describe("Replace all rules with these"),
+      pls_file_path: z.string().optional().describe("Absolute path to a W3C PLS lexicon (.pls) whose rules replace all existing rules. Combined with replace_rules if both are given"),
+      remove_rules: z.array(z.string()).optional().describe("string_to_replace values of the rules to remove"),
+      add_rules: z.array(pronunciationRuleSchema).optional().describe("Rules to add. A rule for text that already has a rule replaces it"),
+      name: z.string().min(1).optional().describe("New name for the dictionary"),
+      archived: z.boolean().optional().describe("Archive (true) or unarchive (false) the dictionary"),
+    },
+    annotations: {
+      title: "Update Pronunciation Dictionary",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  },
+  async ({ dictionary_id, replace_rules, pls_file_path, remove_rules, add_rules, name, archived }) => {
+    try {
+      const client = getClient();
+      const changes: string[] = [];
+      let versionId: string | undefined;
+
+      // Replace first, then remove and add, so all three can be combined in one call
+      if (replace_rules || pls_file_path) {
+        const imported = pls_file_path ? await readPlsFile(await resolveExistingFile(pls_file_path)) : [];
+        const rules = [...imported, ...(replace_rules ?? [])];
+        const response = await client.pronunciationDictionaries.rules.set(dictionary_id, { rules: rules.map(toDictionaryRule) });
+        versionId = response.versionId;
+        changes.push(`replaced all rules with ${rules.length} rule(s)`);
+      }
+      if (remove_rules?.length) {
+        const response = await client.pronunciationDictionaries.rules.remove(dictionary_id, { ruleStrings: remove_rules });
+        versionId = response.versionId;
+        changes.push(`removed ${remove_rules.length} rule(s)`);
+      }
+      if (add_rules?.length) {
+        const response = await client.pronunciationDictionaries.rules.add(dictionary_id, { rules: add_rules.map(toDictionaryRule) });
+        versionId = response.versionId;
+        changes.push(`added ${add_rules.length} rule(s)`);
+      }
+      if (name !== undefined || archived !== undefined) {
+        await client.pronunciationDictionaries.update(dictionary_id, { name, archived });
+        if (name !== undefined) changes.push(`renamed to "${name}"`);
+        if (archived !== undefined) changes.push(archived ? "archived" : "unarchived");
+      }
+      if (changes.length === 0) {
+        throw new Error("No changes given");
+      }
+
+      const dictionary = await client.pronunciationDictionaries.get(dictionary_id);
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Updated pronunciation dictionary "${dictionary.name}": ${changes.join(", ")}. It now has ${dictionary.latestVersionRulesNum} rule(s), version_id ${versionId ?? dictionary.latestVersionId}`,
+        }],
+        structuredContent: {
+          dictionary_id: dictionary.id,
+          version_id: versionId ?? dictionary.latestVersionId,
+          name: dictionary.name,
+          rule_count: dictionary.latestVersionRulesNum,
+          archived: dictionary.archivedTimeUnix !== undefined,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to update pronunciation dictionary: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register generate_tts tool
+server.registerTool(
+  "generate_tts",
+  {
+    title: "Generate Speech",
+    description: "Generates AND plays speech audio from text using ElevenLabs. This tool both generates and plays the audio - calling play_audio afterwards is redundant and will show a duplicate player. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      text: z.string().describe("The text to convert to speech"),
+      voice_id: z.string().optional().describe("ElevenLabs voice ID (default: Juniper). Use list_voices to find one"),
+      model_id: z.string().optional().describe("Model ID (default: eleven_v3)"),
+      ...voiceSettingsShape,
+      seed: z.number().int().min(0).max(4294967295).optional().describe("Seed for deterministic sampling. Reuse it with the same settings to regenerate a take"),
+      language_code: z.string().length(2).optional().describe("ISO 639-1 language code to enforce (e.g. en, de)"),
+      text_normalization: z.enum(["auto", "on", "off"]).optional().describe("Whether numbers, dates, etc. are spelled out (default: auto)"),
+      pronunciation_dictionaries: pronunciationDictionariesSchema,
+      output_format: outputFormatSchema,
+      long_form: z.boolean().optional().describe("Split the text into chunks on paragraph and sentence boundaries and stitch the audio together. Enabled automatically when the text exceeds the model's per-request limit or max_chunk_chars is set"),
+      max_chunk_chars: z.number().int().min(200).optional().describe("Maximum characters per chunk. Setting it enables long-form mode (default: 2500, capped at the model limit)"),
+      timestamps: z.boolean().optional().describe("Generate word-level timestamps, save them next to the audio as <file>.alignment.json and show a synchronized transcript in the player"),
+      stream: z.boolean().optional().describe("Start playback while the audio is still being generated, for long narrations. Returns as soon as audio starts arriving; requires an mp3 output_format and can't be combined with timestamps"),
+      force_regenerate: forceRegenerateSchema,
+      output_path: outputPathSchema,
+      title: z.string().optional().describe("Display title for the track"),
+    },
+    annotations: {
+      title: "Generate Speech",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ text, voice_id, model_id, seed, language_code, text_normalization, pronunciation_dictionaries, output_format, long_form, max_chunk_chars, timestamps, stream, force_regenerate, output_path, title, ...voiceSettings }) => {
+    let allocatedPath: string | undefined;
+    try {
+      const client = getClient();
+      const voiceId = voice_id || DEFAULT_VOICE_ID;
+      const modelId = model_id || DEFAULT_MODEL_ID;
+      const outputFormat = output_format ?? DEFAULT_OUTPUT_FORMAT;
+      const characterLimit = MODEL_CHARACTER_LIMITS[modelId] ?? FALLBACK_CHARACTER_LIMIT;
+      if (!text.trim()) {
+        throw new Error("text is empty; give the text to speak");
+      }
+      if (max_chunk_chars !== undefined && long_form === false) {
+        throw new Error("max_chunk_chars splits the text into chunks, so it can't be combined with long_form: false");
+      }
+      const chunks = long_form || max_chunk_chars !== undefined || text.length > characterLimit
+        ? splitTextIntoChunks(text, Math.min(max_chunk_chars ?? DEFAULT_CHUNK_CHARS, characterLimit))
+        : [text];
+      // Non-blank text always leaves a chunk; an empty list would write an empty file
+      if (chunks.length === 0) {
+        throw new Error("text has nothing to speak after splitting it into chunks");
+      }
+
+      // Ogg Opus streams can't be joined by concatenation
+      if (chunks.length > 1 && outputFormat.startsWith("opus_")) {
+        throw new Error("Long-form speech does not support opus output formats; use an mp3 or pcm format instead");
+      }
+      // Browsers can only start MP3 before the end is known; WAV headers need the final size
+      if (stream && !outputFormat.startsWith("mp3_")) {
+        throw new Error("Streaming requires an mp3 output format");
+      }
+      if (stream && timestamps) {
+        throw new Error("Streaming can't be combined with timestamps; the transcript is only known once generation finishes");
+      }
+
+      const resolvedSettings = await resolveVoiceSettings(client, voiceId, voiceSettings);
+      const dictionaries = await resolvePronunciationDictionaries(client, pronunciation_dictionaries);
+      const settings = {
+        voice_id: voiceId,
+        model_id: modelId,
+        stability: resolvedSettings.stability,
+        similarity_boost: resolvedSettings.similarityBoost,
+        style: resolvedSettings.style,
+        use_speaker_boost: resolvedSettings.useSpeakerBoost,
+        speed: resolvedSettings.speed,
+        seed,
+        language_code,
+        text_normalization,
+        pronunciation_dictionaries: dictionaries,
+        output_format: outputFormat,
+      };
+
+      const cacheKey = getCacheKey("tts", { text, ...settings, chunks, timestamps: timestamps ?? false });
+      const trackTitle = title || `Speech: ${text.substring(0, 50)}${text.length > 50 ? "..." : ""}`;
+      const reused = await findReusableGeneration<SpeechCacheMetadata>(cacheKey, trackTitle, force_regenerate, output_path);
+      const filePath = reused?.filePath ?? (allocatedPath = await allocateGenerationPath("tts", getOutputExtension(outputFormat), {
+        title: title || text,
+        voiceId,
+        outputPath: output_path,
+      }));
+
+      const tags: AudioTags = {
+        title: trackTitle,
+        artist: "ElevenLabs TTS",
+        comment: text,
+        date: new Date(),
+        custom: { "ElevenLabs Voice ID": voiceId, "ElevenLabs Model ID": modelId },
+      };
+      const libraryParameters = {
+        text,
+        ...settings,
+        long_form: chunks.length > 1,
+        timestamps: timestamps ?? false,
+      };
+
+      let generation = reused?.metadata ?? await restoreCachedGeneration<SpeechCacheMetadata>(cacheKey, filePath, trackTitle, force_regenerate);
+      const cached = generation !== null;
+      let streamUrl: string | undefined;
+
+      if (!generation) {
+        const audioServerUrl = stream ? await getAudioServerUrl() : null;
+        const call = await checkBudget(client, "tts", estimateSpeechCost(text.length, modelId));
+        const chargeChunk = (rawResponse: { headers: Headers }, i: number) =>
+          chargeRequest(call, rawResponse, estimateSpeechCost(chunks[i].length, modelId));
+
+        // Neighbouring text keeps prosody consistent across chunk boundaries
+        const requests = chunks.map((chunk, i) => ({
+          outputFormat,
+          text: chunk,
+          modelId,
+          voiceSettings: resolvedSettings,
+          seed,
+          languageCode: language_code,
+          applyTextNormalization: text_normalization,
+          pronunciationDictionaryLocators: toDictionaryLocators(dictionaries),
+          previousText: i > 0 ? chunks[i - 1] : undefined,
+          nextText: i < chunks.length - 1 ? chunks[i + 1] : undefined,
+        }));
+
+        // Streaming falls back to a regular generation if the relay server can't start
+        if (audioServerUrl) {
+          let finished: Promise<number[]>;
+          try {
+            ({ finished } = await streamSpeechToFile(client, voiceId, requests, filePath, buildId3Tag(tags), chargeChunk));
+          } catch (error) {
+            await recordUsage(client, call, true);
+            throw error;
+          }
+          streamUrl = getAudioFileUrl(audioServerUrl, filePath);
+
+          // The rest of the bookkeeping waits until the whole file has arrived
+          finished
+            .then(async (byteCounts) => {
+              await recordUsage(client, call);
+              return byteCounts;
+            }, async (error) => {
+              await recordUsage(client, call, true);
+              throw error;
+            })
+            .then(async (byteCounts) => {
+              let offsetSeconds = 0;
+              const chapters = byteCounts.map((bytes, i) => {
+                const chapter = { title: chunkChapterTitle(i, chunks[i]), start: offsetSeconds };
+                offsetSeconds += estimateDurationSeconds(outputFormat, bytes) ?? 0;
+                return chapter;
+              });
+              const streamed = { chapters, duration_seconds: offsetSeconds };
+              await cacheGeneration(cacheKey, "tts", filePath, trackTitle, streamed);
+              await recordGeneration("tts", filePath, trackTitle, streamed.duration_seconds, libraryParameters);
+            })
+            .catch((error) => {
+              console.error("[ElevenLabs Player] Streaming speech failed:", error);
+            });
+        } else {
+          const audioChunks: Uint8Array[] = [];
+          const chapters: { title: string; start: number }[] = [];
+          const alignments: { alignment: CharacterAlignment; offsetSeconds: number }[] = [];
+          let offsetSeconds = 0;
+
+          try {
+            for (let i = 0; i < chunks.length; i++) {
+              let audio: Uint8Array;
+              if (timestamps) {
+                const { data, rawResponse } = await client.textToSpeech.convertWithTimestamps(voiceId, requests[i]).withRawResponse();
+                chargeChunk(rawResponse, i);
+                audio = Buffer.from(data.audioBase64, "base64");
+                if (data.alignment) {
+                  alignments.push({ alignment: data.alignment, offsetSeconds });
+                }
+              } else {
+                const { data, rawResponse } = await client.textToSpeech.convert(voiceId, requests[i]).withRawResponse();
+                chargeChunk(rawResponse, i);
+                audio = await readStream(data);
+              }
+              audioChunks.push(audio);
+
+              chapters.push({ title: chunkChapterTitle(i, chunks[i]), start: offsetSeconds });
+              offsetSeconds += estimateDurationSeconds(outputFormat, audio.length) ?? 0;
+            }
+
+            await fs.writeFile(filePath, encodeForOutput(outputFormat, concatBytes(audioChunks)));
+          } catch (error) {
+            // Chunks generated before the failure were still paid for
+            await recordUsage(client, call, true);
+            throw error;
+          }
+          await recordUsage(client, call);
+
+          generation = {
+            chapters,
+            alignment: alignments.length > 0 ? concatAlignments(alignments) : undefined,
+            duration_seconds: outputFormat.startsWith("opus_") ? null : offsetSeconds,
+          };
+          await cacheGeneration(cacheKey, "tts", filePath, trackTitle, generation);
+        }
+      }
+
+      // Save the alignment next to the audio so it can be reused outside the player
+      let transcript: TranscriptWord[] | undefined;
+      let alignmentPath: string | undefined;
+      if (generation?.alignment) {
+        transcript = wordsFromCharacterAlignment(generation.alignment);
+        alignmentPath = `${filePath}.alignment.json`;
+        await fs.writeFile(alignmentPath, JSON.stringify({ text, alignment: generation.alignment, words: transcript }, null, 2));
+      }
+
+      // A reused file was tagged and recorded when it was generated
+      if (generation && !reused) {
+        await tagGeneratedFile(filePath, outputFormat, tags);
+        await recordGeneration("tts", filePath, trackTitle, generation.duration_seconds, libraryParameters);
+      }
+
+      const batchId = Date.now();
+      let summary: string;
+      if (reused) {
+        summary = `Reused the earlier speech for an identical request (no credits used): ${filePath}`;
+      } else if (cached) {
+        summary = `Reused cached speech for an identical request (no credits used), saved to ${filePath}`;
+      } else if (streamUrl) {
+        summary = `Streaming speech to ${filePath}. Playback can start while the rest is being generated`;
+      } else if (chunks.length > 1) {
+        summary = `Generated long-form speech from ${chunks.length} chunks saved to ${filePath}`;
+      } else {
+        summary = `Generated speech saved to ${filePath}`;
+      }
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: summary + (alignmentPath ? `\nWord timestamps saved to ${alignmentPath}` : ""),
+        }],
+        structuredContent: {
+          tracks: [{
+            id: `${batchId}-0`,
+            filePath,
+            streamUrl,
+            title: trackTitle,
+            artist: "ElevenLabs TTS",
+            chapters: chunks.length > 1 ? generation?.chapters : undefined,
+            transcript,
+          }],
+          settings,
+          cached,
+          streaming: streamUrl !== undefined,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to generate speech: ${message}` }],
+      };
+    } finally {
+      if (allocatedPath) releaseOutputPath(allocatedPath);
+    }
+  }
+);
+
+// A row of a generate_tts_batch script
+const batchRowSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]).describe("Row identifier, also used as the output file name"),
+  text: z.string().min(1).describe("The text to speak"),
+  voice_id: z.string().optional().describe("Voice for this row (default: the batch voice_id)"),
+  settings: z.object(voiceSettingsShape).optional().describe("Voice settings for this row"),
+});
+
+type BatchRow = z.infer<typeof batchRowSchema>;
+
+// A script row, or the reason it couldn't be read
+type ScriptRow = { id: string; row: BatchRow; error?: undefined } | { id: string; row?: undefined; error: string };
+
+// Validate rows read from a batch file. Invalid rows are kept as failures so
+// they show up in the report without stopping the rest of the batch.
+function parseBatchRows(rows: unknown[]): ScriptRow[] {
+  return rows.map((raw, i) => {
+    const rawId = (raw as { id?: unknown } | null)?.id;
+    const id = typeof rawId === "string" || typeof rawId === "number" ? String(rawId) : `row ${i + 1}`;
+    const result = batchRowSchema.safeParse(raw);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      return { id, error: `Invalid row: ${issue.path.join(".") || "row"}: ${issue.message}` };
+    }
+    return { id, row: result.data };
+  });
+}
+
+interface BatchRowResult {
+  id: string;
+  status: "ok" | "failed";
+  file_path?: string;
+  cached?: boolean;
+  error?: string;
+}
+
+// Register generate_tts_batch tool
+server.registerTool(
+  "generate_tts_batch",
+  {
+    title: "Generate Speech Batch",
+    description: "Generates speech for every row of a script, such as a UI string table or game dialogue, and queues the results as a playlist. Rows are given inline or read from a local CSV or JSON file; each has an id (used as the file name, with a numbered suffix if another id maps to the same name), text, and an optional voice_id and settings. Rows are generated in parallel and a failed row doesn't stop the others; a per-row report is returned. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      rows: z.array(batchRowSchema).min(1).max(MAX_BATCH_ROWS).optional().describe("Script rows. Required unless file_path is given"),
+      file_path: z.string().optional().describe("Absolute path to a .csv or .json script. CSV files need id and text columns, and may add voice_id, settings (JSON) or voice setting columns such as stability and speed"),
+      voice_id: z.string().optional().describe("Voice for rows without their own voice_id (default: Juniper)"),
+      model_id: z.string().optional().describe("Model ID (default: eleven_v3)"),
+      pronunciation_dictionaries: pronunciationDictionariesSchema,
+      output_format: outputFormatSchema,
+      concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).optional().describe(`Rows generated at the same time (default: ${DEFAULT_BATCH_CONCURRENCY}). Keep within the account's concurrency limit`),
+      force_regenerate: forceRegenerateSchema,
+      output_path: z.string().optional().describe("Folder to save the batch in, relative to the output directory or absolute inside it. Default: a new folder named by the configured filename template"),
+    },
+    annotations: {
+      title: "Generate Speech Batch",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ rows, file_path, voice_id, model_id, pronunciation_dictionaries, output_format, concurrency, force_regenerate, output_path }) => {
+    try {
+      if (!rows === !file_path) {
+        throw new Error("Provide exactly one of rows or file_path");
+      }
+      const scriptRows: ScriptRow[] = rows
+        ? rows.map((row) => ({ id: String(row.id), row }))
+        : parseBatchRows(await readBatchFile(await resolveExistingFile(file_path!)));
+      if (scriptRows.length === 0) {
+        throw new Error("The script has no rows");
+      }
+      if (scriptRows.length > MAX_BATCH_ROWS) {
+        throw new Error(`The script has ${scriptRows.length} rows; split it into batches of at most ${MAX_BATCH_ROWS}`);
+      }
+
+      const client = getClient();
+      const modelId = model_id || DEFAULT_MODEL_ID;
+      const outputFormat = output_format ?? DEFAULT_OUTPUT_FORMAT;
+      const characterLimit = MODEL_CHARACTER_LIMITS[modelId] ?? FALLBACK_CHARACTER_LIMIT;
+      const dictionaries = await resolvePronunciationDictionaries(client, pronunciation_dictionaries);
+
+      // Budgets cover the whole script, even if some rows turn out to be cached
+      const call = await checkBudget(
+        client,
+        "tts",
+        estimateSpeechCost(scriptRows.reduce((acc, { row }) => acc + (row?.text.length ?? 0), 0), modelId),
+      );
+
+      let batchDir: string;
+      try {
+        batchDir = await allocateGenerationPath("tts_batch", "", {
+          title: file_path ? path.basename(file_path, path.extname(file_path)) : undefined,
+          voiceId: voice_id,
+          outputPath: output_path,
+        });
+      } catch (error) {
+        await recordUsage(client, call, true);
+        throw error;
+      }
+
+      // Distinct ids that map to the same file name, like "a/b" and "a_b", get
+      // a numbered suffix so they don't overwrite each other. Names are
+      // compared ignoring case, as on case-insensitive file systems
+      const ids = new Set<string>();
+      const stems = new Set<string>();
+      const rowStems = scriptRows.map(({ id }) => {
+        if (ids.has(id)) return null;
+        ids.add(id);
+        const base = fileStemFromId(id);
+        let stem = base;
+        for (let n = 2; stems.has(stem.toLowerCase()); n++) stem = `${base}_${n}`;
+        stems.add(stem.toLowerCase());
+        return stem;
+      });
+
+      // Rows that fail after their request was accepted are still charged
+      const results = await mapWithConcurrency(scriptRows, concurrency ?? DEFAULT_BATCH_CONCURRENCY, async ({ id, row, error }, i): Promise<BatchRowResult> => {
+        try {
+          if (!row) {
+            throw new Error(error);
+          }
+          if (!rowStems[i]) {
+            throw new Error("Duplicate row id");
+          }
+          if (row.text.length > characterLimit) {
+            throw new Error(`Text exceeds the ${characterLimit}-character limit of ${modelId}; use generate_tts for long-form speech`);
+          }
+
+          const voiceId = row.voice_id || voice_id || DEFAULT_VOICE_ID;
+          const resolvedSettings = await resolveVoiceSettings(client, voiceId, row.settings ?? {});
+          const settings = {
+            voice_id: voiceId,
+            model_id: modelId,
+            stability: resolvedSettings.stability,
+            similarity_boost: resolvedSettings.similarityBoost,
+            style: resolvedSettings.style,
+            use_speaker_boost: resolvedSettings.useSpeakerBoost,
+            speed: resolvedSettings.speed,
+            pronunciation_dictionaries: dictionaries,
+            output_format: outputFormat,
+          };
+          const filePath = path.join(batchDir, `${rowStems[i]}${getOutputExtension(outputFormat)}`);
+
+          // Same key as generate_tts, so single takes and batch rows share the cache
+          const cacheKey = getCacheKey("tts", { text: row.text, ...settings, chunks: [row.text], timestamps: false });
+          let generation = await restoreCachedGeneration<SpeechCacheMetadata>(cacheKey, filePath, id, force_regenerate);
+          const cached = generation !== null;
+
+          if (!generation) {
+            const { data, rawResponse } = await client.textToSpeech.convert(voiceId, {
+              outputFormat,
+              text: row.text,
+              modelId,
+              voiceSettings: resolvedSettings,
+              pronunciationDictionaryLocators: toDictionaryLocators(dictionaries),
+            }).withRawResponse();
+            chargeRequest(call, rawResponse, estimateSpeechCost(row.text.length, modelId));
+            const audio = await readStream(data);
+            await fs.writeFile(filePath, encodeForOutput(outputFormat, audio));
+
+            generation = {
+              chapters: [{ title: chunkChapterTitle(0, row.text), start: 0 }],
+              duration_seconds: estimateDurationSeconds(outputFormat, audio.length),
+            };
+            await cacheGeneration(cacheKey, "tts", filePath, id, generation);
+          }
+
+          await tagGeneratedFile(filePath, outputFormat, {
+            title: id,
+            artist: "ElevenLabs TTS",
+            comment: row.text,
+            date: new Date(),
+            custom: { "ElevenLabs Voice ID": voiceId, "ElevenLabs Model ID": modelId },
+          });
+          await recordGeneration("tts", filePath, id, generation.duration_seconds, {
+            text: row.text,
+            ...settings,
+            long_form: false,
+            timestamps: false,
+            batch_row_id: id,
+          });
+          return { id, status: "ok", file_path: filePath, cached };
+        } catch (error) {
+          return { id, status: "failed", error: error instanceof Error ? error.message : "Unknown error" };
+        }
+      });
+
+      await recordUsage(client, call, results.some((result) => result.status === "failed"));
+
+      const batchId = Date.now();
+      const tracks = results.flatMap((result, i) => result.status === "ok"
+        ? [{
+            id: `${batchId}-${i}`,
+            filePath: result.file_path!,
+            title: result.id,
+            artist: `${scriptRows[i].row!.text.substring(0, 50)}${scriptRows[i].row!.text.length > 50 ? "..." : ""}`,
+          }]
+        : []);
+      const failures = results.filter((result) => result.status === "failed");
+      const cachedCount = results.filter((result) => result.cached).length;
+
+      const summary = `Generated ${tracks.length} of ${results.length} row(s) into ${batchDir}`
+        + (cachedCount > 0 ? ` (${cachedCount} reused from cache)` : "")
+        + (failures.length > 0
+          ? `\nFailed:\n${failures.map((failure) => `- ${failure.id}: ${failure.error}`).join("\n")}`
+          : "");
+
+      return {
+        content: [{ type: "text" as const, text: summary }],
+        structuredContent: { tracks, rows: results, output_dir: batchDir },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to generate speech batch: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register generate_dialogue tool
+server.registerTool(
+  "generate_dialogue",
+  {
+    title: "Generate Dialogue",
+    description: "Generates AND plays a multi-speaker conversation as a single audio file using ElevenLabs text-to-dialogue. Each turn's start and end time is returned, and the player lists the lines for quick navigation. Calling play_audio afterwards is redundant. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      turns: z.array(z.object({
+        speaker: z.string().describe("Speaker name shown in the player"),
+        voice_id: z.string().describe("ElevenLabs voice ID for this speaker. Use list_voices to find one"),
+        text: z.string().describe("The line to speak. Audio tags like [laughs] are supported"),
+      })).min(1).describe("Ordered dialogue turns"),
+      model_id: z.string().optional().describe("Model ID (default: eleven_v3)"),
+      stability: z.number().min(0).max(1).optional().describe("Voice stability for all speakers, 0-1"),
+      seed: z.number().int().min(0).max(4294967295).optional().describe("Seed for deterministic sampling"),
+      language_code: z.string().length(2).optional().describe("ISO 639-1 language code to enforce (e.g. en, de)"),
+      pronunciation_dictionaries: pronunciationDictionariesSchema,
+      output_format: outputFormatSchema,
+      output_path: outputPathSchema,
+      title: z.string().optional().describe("Display title for the track"),
+    },
+    annotations: {
+      title: "Generate Dialogue",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ turns, model_id, stability, seed, language_code, pronunciation_dictionaries, output_format, output_path, title }) => {
+    let allocatedPath: string | undefined;
+    try {
+      const client = getClient();
+      const modelId = model_id || DEFAULT_MODEL_ID;
+      const dictionaries = await resolvePronunciationDictionaries(client, pronunciation_dictionaries);
+      const outputFormat = output_format ?? DEFAULT_OUTPUT_FORMAT;
+      const estimate = estimateSpeechCost(turns.reduce((acc, turn) => acc + turn.text.length, 0), modelId);
+      const call = await checkBudget(client, "dialogue", estimate);
+
+      const speakers = [...new Set(turns.map((turn) => turn.speaker))];
+      const trackTitle = title || `Dialogue: ${speakers.join(", ")}`;
+      let response: ElevenLabs.AudioWithTimestampsAndVoiceSegmentsResponseModel;
+      let filePath: string;
+      let audio: Buffer;
+      try {
+        const { data, rawResponse } = await client.textToDialogue.convertWithTimestamps({
+          outputFormat,
+          inputs: turns.map((turn) => ({ text: turn.text, voiceId: turn.voice_id })),
+          modelId,
+          settings: stability !== undefined ? { stability } : undefined,
+          seed,
+          languageCode: language_code,
+          pronunciationDictionaryLocators: toDictionaryLocators(dictionaries),
+        }).withRawResponse();
+        chargeRequest(call, rawResponse, estimate);
+        response = data;
+
+        filePath = allocatedPath = await allocateGenerationPath("dialogue", getOutputExtension(outputFormat), {
+          title: trackTitle,
+          outputPath: output_path,
+        });
+        audio = Buffer.from(response.audioBase64, "base64");
+        await fs.writeFile(filePath, encodeForOutput(outputFormat, audio));
+      } catch (error) {
+        await recordUsage(client, call, true);
+        throw error;
+      }
+      await recordUsage(client, call);
+
+      // A turn may be split across several voice segments; span all of them
+      const turnTimings = turns.map((turn, index) => {
+        const segments = response.voiceSegments.filter((segment) => segment.dialogueInputIndex === index);
+        return {
+          index,
+          speaker: turn.speaker,
+          voice_id: turn.voice_id,
+          text: turn.text,
+          start: segments.length > 0 ? Math.min(...segments.map((segment) => segment.startTimeSeconds)) : null,
+          end: segments.length > 0 ? Math.max(...segments.map((segment) => segment.endTimeSeconds)) : null,
+        };
+      });
+
+      const speakerAt = (charIndex: number) => {
+        const segment = response.voiceSegments.find(
+          (s) => charIndex >= s.characterStartIndex && charIndex < s.characterEndIndex
+        );
+        return segment ? turns[segment.dialogueInputIndex]?.speaker : undefined;
+      };
+      const transcript = response.alignment
+        ? wordsFromCharacterAlignment(response.alignment, 0, speakerAt)
+        : undefined;
+
+      const batchId = Date.now();
+      const settings = {
+        model_id: modelId,
+        stability,
+        seed,
+        language_code,
+        pronunciation_dictionaries: dictionaries,
+        output_format: outputFormat,
+      };
+
+      await tagGeneratedFile(filePath, outputFormat, {
+        title: trackTitle,
+        artist: "ElevenLabs Dialogue",
+        comment: turns.map((turn) => `${turn.speaker}: ${turn.text}`).join("\n"),
+        date: new Date(),
+        custom: {
+          "ElevenLabs Voice ID": [...new Set(turns.map((turn) => turn.voice_id))].join(", "),
+          "ElevenLabs Model ID": modelId,
+        },
+      });
+      await recordGeneration("dialogue", filePath, trackTitle, estimateDurationSeconds(outputFormat, audio.length), {
+        turns,
+        ...settings,
+      });
+
+      return {
+        content: [{ type: "text" as const, text: `Generated ${turns.length}-line dialogue saved to ${filePath}` }],
+        structuredContent: {
+          turns: turnTimings,
+          tracks: [{
+            id: `${batchId}-0`,
+            filePath,
+            title: trackTitle,
+            artist: "ElevenLabs Dialogue",
+            chapters: turnTimings
+              .filter((turn) => turn.start !== null)
+              .map((turn) => ({
+                title: `${turn.speaker}: ${turn.text.substring(0, 40)}${turn.text.length > 40 ? "..." : ""}`,
+                start: turn.start!,
+              })),
+            transcript,
+          }],
+          settings,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to generate dialogue: ${message}` }],
+      };
+    } finally {
+      if (allocatedPath) releaseOutputPath(allocatedPath);
+    }
+  }
+);
+
+// Register generate_sound_effect tool
+server.registerTool(
+  "generate_sound_effect",
+  {
+    title: "Generate Sound Effect",
+    description: "Generates AND plays a sound effect from a text prompt using ElevenLabs. This tool both generates and plays the audio - calling play_audio afterwards is redundant and will show a duplicate player. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      prompt: z.string().describe("Description of the sound effect to generate"),
+      duration_seconds: z.number().optional().describe("Duration in seconds (optional)"),
+      prompt_influence: z.number().min(0).max(1).optional().describe("How closely to follow the prompt, 0-1. Higher is more literal and less varied (default: 0.3)"),
+      loop: z.boolean().optional().describe("Generate a seamlessly looping sound (e.g. ambience beds); the player loops it automatically. Use a pcm_* output_format for gapless playback, as MP3 adds padding at the loop point"),
+      output_format: outputFormatSchema,
+      force_regenerate: forceRegenerateSchema,
+      output_path: outputPathSchema,
+      title: z.string().optional().describe("Display title for the track"),
+    },
+    annotations: {
+      title: "Generate Sound Effect",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ prompt, duration_seconds, prompt_influence, loop, output_format, force_regenerate, output_path, title }) => {
+    let allocatedPath: string | undefined;
+    try {
+      const client = getClient();
+      const outputFormat = output_format ?? DEFAULT_OUTPUT_FORMAT;
+      const cacheKey = getCacheKey("sfx", { prompt, duration_seconds, prompt_influence, loop, output_format: outputFormat });
+      const trackTitle = title || `SFX: ${prompt.substring(0, 50)}${prompt.length > 50 ? "..." : ""}`;
+      const reused = await findReusableGeneration<{ duration_seconds: number | null }>(cacheKey, trackTitle, force_regenerate, output_path);
+      const filePath = reused?.filePath ?? (allocatedPath = await allocateGenerationPath("sfx", getOutputExtension(outputFormat), {
+        title: title || prompt,
+        outputPath: output_path,
+      }));
+
+      let generation = reused?.metadata ?? await restoreCachedGeneration<{ duration_seconds: number | null }>(cacheKey, filePath, trackTitle, force_regenerate);
+      const cached = generation !== null;
+
+      if (!generation) {
+        const estimate = estimateSoundEffectCost(duration_seconds);
+        const call = await checkBudget(client, "sfx", estimate);
+
+        let audio: Uint8Array;
+        try {
+          const { data, rawResponse } = await client.textToSoundEffects.convert({
+            outputFormat,
+            text: prompt,
+            durationSeconds: duration_seconds,
+            promptInfluence: prompt_influence,
+            loop,
+            // Looping is only supported by the v2 sound model
+            modelId: loop ? "eleven_text_to_sound_v2" : undefined,
+          }).withRawResponse();
+          chargeRequest(call, rawResponse, estimate);
+          audio = await saveStreamToFile(data, filePath, outputFormat);
+        } catch (error) {
+          await recordUsage(client, call, true);
+          throw error;
+        }
+        await recordUsage(client, call);
+
+        generation = { duration_seconds: estimateDurationSeconds(outputFormat, audio.length) };
+        await cacheGeneration(cacheKey, "sfx", filePath, trackTitle, generation);
+      }
+
+      const batchId = Date.now();
+
+      // A reused file was tagged and recorded when it was generated
+      if (!reused) {
+        await tagGeneratedFile(filePath, outputFormat, {
+          title: trackTitle,
+          artist: "ElevenLabs SFX",
+          comment: prompt,
+          date: new Date(),
+          custom: { "ElevenLabs Model ID": loop ? "eleven_text_to_sound_v2" : undefined },
+        });
+
+        await recordGeneration("sfx", filePath, trackTitle, generation.duration_seconds, {
+          prompt,
+          duration_seconds,
+          prompt_influence,
+          loop,
+          output_format: outputFormat,
+        });
+      }
+
+      let summary: string;
+      if (reused) {
+        summary = `Reused the earlier sound effect for an identical request (no credits used): ${filePath}`;
+      } else if (cached) {
+        summary = `Reused cached sound effect for an identical request (no credits used), saved to ${filePath}`;
+      } else {
+        summary = `Generated sound effect saved to ${filePath}`;
+      }
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: summary,
+        }],
+        structuredContent: {
+          tracks: [{
+            id: `${batchId}-0`,
+            filePath,
+            title: trackTitle,
+            artist: "ElevenLabs SFX",
+            loop,
+          }],
+          cached,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to generate sound effect: ${message}` }],
+      };
+    } finally {
+      if (allocatedPath) releaseOutputPath(allocatedPath);
+    }
+  }
+);
+
+// Register generate_music tool
+server.registerTool(
+  "generate_music",
+  {
+    title: "Generate Music",
+    description: "Generates AND plays music from a text prompt using ElevenLabs. This tool both generates and plays the audio - calling play_audio afterwards is redundant and will show a duplicate player. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      prompt: z.string().optional().describe("Description of the music to generate (genre, mood, instruments, etc.). Required unless composition_plan is given"),
+      composition_plan: compositionPlanSchema.optional().describe("Structured plan with global styles and ordered sections, e.g. from draft_music_plan. Replaces prompt"),
+      respect_section_durations: z.boolean().optional().describe("Keep each section exactly at its planned duration (composition_plan only)"),
+      duration_seconds: z.number().optional().describe("Duration in seconds (default: model chooses based on prompt)"),
+      instrumental: z.boolean().optional().describe("Force instrumental only (no vocals)"),
+      output_format: outputFormatSchema,
+      force_regenerate: forceRegenerateSchema,
+      output_path: outputPathSchema,
+      title: z.string().optional().describe("Display title for the track"),
+    },
+    annotations: {
+      title: "Generate Music",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ prompt, composition_plan, respect_section_durations, duration_seconds, instrumental, output_format, force_regenerate, output_path, title }) => {
+    let allocatedPath: string | undefined;
+    try {
+      if (!prompt === !composition_plan) {
+        throw new Error("Provide exactly one of prompt or composition_plan");
+      }
+      if (composition_plan && (duration_seconds !== undefined || instrumental !== undefined)) {
+        throw new Error("duration_seconds and instrumental only apply to prompts; set section durations and styles in the composition_plan instead");
+      }
+
+      const client = getClient();
+      const outputFormat = output_format ?? DEFAULT_OUTPUT_FORMAT;
+      const description = prompt ?? composition_plan!.positive_global_styles.join(", ");
+      const cacheKey = getCacheKey("music", {
+        prompt,
+        composition_plan,
+        respect_section_durations,
+        duration_seconds,
+        instrumental,
+        output_format: outputFormat,
+      });
+      const trackTitle = title || `Music: ${description.substring(0, 50)}${description.length > 50 ? "..." : ""}`;
+      const reused = await findReusableGeneration<{ duration_seconds: number | null }>(cacheKey, trackTitle, force_regenerate, output_path);
+      const filePath = reused?.filePath ?? (allocatedPath = await allocateGenerationPath("music", getOutputExtension(outputFormat), {
+        title: title || description,
+        outputPath: output_path,
+      }));
+
+      let generation = reused?.metadata ?? await restoreCachedGeneration<{ duration_seconds: number | null }>(cacheKey, filePath, trackTitle, force_regenerate);
+      const cached = generation !== null;
+
+      if (!generation) {
+        const estimate = estimateMusicCost(composition_plan
+          ? composition_plan.sections.reduce((acc, section) => acc + section.duration_seconds, 0)
+          : duration_seconds);
+        const call = await checkBudget(client, "music", estimate);
+
+        let audio: Uint8Array;
+        try {
+          const { data, rawResponse } = await client.music.compose({
+            outputFormat,
+            prompt,
+            compositionPlan: composition_plan ? toMusicPrompt(composition_plan) : undefined,
+            respectSectionsDurations: respect_section_durations,
+            musicLengthMs: duration_seconds ? duration_seconds * 1000 : undefined,
+            forceInstrumental: instrumental,
+          }).withRawResponse();
+          chargeRequest(call, rawResponse, estimate);
+          audio = await saveStreamToFile(data, filePath, outputFormat);
+        } catch (error) {
+          await recordUsage(client, call, true);
+          throw error;
+        }
+        await recordUsage(client, call);
+
+        generation = { duration_seconds: estimateDurationSeconds(outputFormat, audio.length) };
+        await cacheGeneration(cacheKey, "music", filePath, trackTitle, generation);
+      }
+
+      const batchId = Date.now();
+
+      // A reused file was tagged and recorded when it was generated
+      if (!reused) {
+        await tagGeneratedFile(filePath, outputFormat, {
+          title: trackTitle,
+          artist: "ElevenLabs Music",
+          comment: prompt ?? JSON.stringify(composition_plan),
+          date: new Date(),
+        });
+
+        await recordGeneration("music", filePath, trackTitle, generation.duration_seconds, {
+          prompt,
+          composition_plan,
+          respect_section_durations,
+          duration_seconds,
+          instrumental,
+          output_format: outputFormat,
+        });
+      }
+
+      // Section boundaries become chapter markers
+      let chapters: { title: string; start: number }[] | undefined;
+      if (composition_plan) {
+        let start = 0;
+        chapters = composition_plan.sections.map((section) => {
+          const chapter = { title: section.name, start };
+          start += section.duration_seconds;
+          return chapter;
+        });
+      }
+
+      let summary: string;
+      if (reused) {
+        summary = `Reused the earlier music for an identical request (no credits used): ${filePath}`;
+      } else if (cached) {
+        summary = `Reused cached music for an identical request (no credits used), saved to ${filePath}`;
+      } else {
+        summary = `Generated music saved to ${filePath}`;
+      }
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: summary,
+        }],
+        structuredContent: {
+          tracks: [{
             id: `${batchId}-0`,
             filePath,
             title: trackTitle,
             artist: "ElevenLabs Music",
+            chapters,
           }],
+          cached,
         },
       };
     } catch (error) {
@@ -351,6 +2372,502 @@ server.registerTool(
         isError: true as const,
         content: [{ type: "text" as const, text: `Failed to generate music: ${message}` }],
       };
+    } finally {
+      if (allocatedPath) releaseOutputPath(allocatedPath);
+    }
+  }
+);
+
+// Register draft_music_plan tool
+server.registerTool(
+  "draft_music_plan",
+  {
+    title: "Draft Music Plan",
+    description: "Drafts a structured composition plan (global styles and timed sections with optional lyrics) from a prompt, without generating audio. Review or edit the plan, then pass it to generate_music as composition_plan. Drafting plans does not use credits.",
+    inputSchema: {
+      prompt: z.string().describe("Description of the music (genre, mood, instruments, structure, lyrics theme, etc.)"),
+      duration_seconds: z.number().min(3).max(600).optional().describe("Total length in seconds (default: model chooses based on prompt)"),
+      source_plan: compositionPlanSchema.optional().describe("Existing plan to revise according to the prompt"),
+    },
+    annotations: {
+      title: "Draft Music Plan",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  },
+  async ({ prompt, duration_seconds, source_plan }) => {
+    try {
+      const client = getClient();
+      const response = await client.music.compositionPlan.create({
+        prompt,
+        musicLengthMs: duration_seconds ? duration_seconds * 1000 : undefined,
+        sourceCompositionPlan: source_plan ? toMusicPrompt(source_plan) : undefined,
+      });
+      if (!("sections" in response)) {
+        throw new Error("The API returned a plan without sections");
+      }
+
+      const plan = fromMusicPrompt(response);
+      const totalSeconds = plan.sections.reduce((acc, section) => acc + section.duration_seconds, 0);
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Drafted a ${plan.sections.length}-section plan (${totalSeconds.toFixed(1)}s):\n${JSON.stringify(plan, null, 2)}`,
+        }],
+        structuredContent: { composition_plan: plan },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to draft music plan: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register transcribe_audio tool
+server.registerTool(
+  "transcribe_audio",
+  {
+    title: "Transcribe Audio",
+    description: "Transcribes a local audio file with ElevenLabs speech-to-text and opens it in the player with a synchronized transcript. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      filePath: z.string().describe("Absolute path to the audio file to transcribe"),
+      language_code: z.string().optional().describe("ISO 639-1 or 639-3 language hint (default: detected automatically)"),
+      diarize: z.boolean().optional().describe("Label which speaker said each word"),
+      num_speakers: z.number().int().min(1).max(32).optional().describe("Maximum number of speakers, helps diarization"),
+      tag_audio_events: z.boolean().optional().describe("Tag non-speech events like (laughter) or (applause)"),
+      model_id: z.string().optional().describe("Speech-to-text model ID (default: scribe_v1)"),
+      title: z.string().optional().describe("Display title for the track"),
+    },
+    annotations: {
+      title: "Transcribe Audio",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ filePath, language_code, diarize, num_speakers, tag_audio_events, model_id, title }) => {
+    try {
+      const absolutePath = await resolveExistingFile(filePath);
+      const client = getClient();
+      const response = await client.speechToText.convert({
+        file: { path: absolutePath },
+        modelId: model_id || DEFAULT_STT_MODEL_ID,
+        languageCode: language_code,
+        diarize,
+        numSpeakers: num_speakers,
+        tagAudioEvents: tag_audio_events,
+        timestampsGranularity: "word",
+      });
+
+      const words: TranscriptWord[] = response.words
+        .filter((word) => word.type !== "spacing" && word.start !== undefined && word.end !== undefined)
+        .map((word) => ({ text: word.text, start: word.start!, end: word.end!, speaker: word.speakerId }));
+      const segments = segmentsFromWords(words);
+      const text = response.text;
+
+      const batchId = Date.now();
+
+      return {
+        content: [{ type: "text" as const, text }],
+        structuredContent: {
+          text,
+          language_code: response.languageCode,
+          segments,
+          tracks: [{
+            id: `${batchId}-0`,
+            filePath: absolutePath,
+            title: title || path.basename(absolutePath),
+            artist: "Transcribed with ElevenLabs",
+            transcript: words,
+          }],
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to transcribe audio: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register change_voice tool
+server.registerTool(
+  "change_voice",
+  {
+    title: "Change Voice",
+    description: "Re-voices an existing local recording in another ElevenLabs voice (speech-to-speech), keeping the original delivery and timing. Both the original and the converted file are added to the player for A/B comparison. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      filePath: z.string().describe("Absolute path to the source recording"),
+      voice_id: z.string().describe("Target ElevenLabs voice ID. Use list_voices to find one"),
+      model_id: z.string().optional().describe("Speech-to-speech model ID (default: eleven_multilingual_sts_v2)"),
+      ...voiceSettingsShape,
+      seed: z.number().int().min(0).max(4294967295).optional().describe("Seed for deterministic sampling"),
+      remove_background_noise: z.boolean().optional().describe("Remove background noise from the source before converting"),
+      output_format: outputFormatSchema,
+      output_path: outputPathSchema,
+      title: z.string().optional().describe("Display title for the converted track"),
+    },
+    annotations: {
+      title: "Change Voice",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ filePath, voice_id, model_id, seed, remove_background_noise, output_format, output_path, title, ...voiceSettings }) => {
+    let allocatedPath: string | undefined;
+    try {
+      const absolutePath = await resolveExistingFile(filePath);
+      const client = getClient();
+      const modelId = model_id || DEFAULT_STS_MODEL_ID;
+      const outputFormat = output_format ?? DEFAULT_OUTPUT_FORMAT;
+      const resolvedSettings = await resolveVoiceSettings(client, voice_id, voiceSettings);
+      const response = await client.speechToSpeech.convert(voice_id, {
+        audio: { path: absolutePath },
+        modelId,
+        outputFormat,
+        // This endpoint takes the settings as a JSON string in API field names
+        voiceSettings: JSON.stringify({
+          stability: resolvedSettings.stability,
+          similarity_boost: resolvedSettings.similarityBoost,
+          style: resolvedSettings.style,
+          use_speaker_boost: resolvedSettings.useSpeakerBoost,
+          speed: resolvedSettings.speed,
+        }),
+        seed,
+        removeBackgroundNoise: remove_background_noise,
+      });
+
+      const outputPath = allocatedPath = await allocateGenerationPath("sts", getOutputExtension(outputFormat), {
+        title: title || path.basename(absolutePath, path.extname(absolutePath)),
+        voiceId: voice_id,
+        outputPath: output_path,
+      });
+
+      const audio = await saveStreamToFile(response, outputPath, outputFormat);
+
+      const sourceName = path.basename(absolutePath);
+      const batchId = Date.now();
+      const trackTitle = title || `Converted: ${sourceName}`;
+      const settings = {
+        voice_id,
+        model_id: modelId,
+        stability: resolvedSettings.stability,
+        similarity_boost: resolvedSettings.similarityBoost,
+        style: resolvedSettings.style,
+        use_speaker_boost: resolvedSettings.useSpeakerBoost,
+        speed: resolvedSettings.speed,
+        seed,
+        remove_background_noise,
+        output_format: outputFormat,
+      };
+      await recordGeneration("sts", outputPath, trackTitle, estimateDurationSeconds(outputFormat, audio.length), {
+        source_file: absolutePath,
+        ...settings,
+      });
+
+      return {
+        content: [{ type: "text" as const, text: `Converted ${sourceName} to voice ${voice_id}, saved to ${outputPath}` }],
+        structuredContent: {
+          tracks: [
+            {
+              id: `${batchId}-0`,
+              filePath: absolutePath,
+              title: `Original: ${sourceName}`,
+            },
+            {
+              id: `${batchId}-1`,
+              filePath: outputPath,
+              title: trackTitle,
+              artist: "ElevenLabs Voice Changer",
+            },
+          ],
+          settings,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to change voice: ${message}` }],
+      };
+    } finally {
+      if (allocatedPath) releaseOutputPath(allocatedPath);
+    }
+  }
+);
+
+// Register isolate_voice tool
+server.registerTool(
+  "isolate_voice",
+  {
+    title: "Isolate Voice",
+    description: "Removes background noise from a local recording using ElevenLabs audio isolation. The cleaned file is saved next to the original as <name>_isolated.mp3 and both are added to the player. WARNING: This tool calls the ElevenLabs API and will incur costs on the user's account.",
+    inputSchema: {
+      filePath: z.string().describe("Absolute path to the recording to clean up"),
+      title: z.string().optional().describe("Display title for the cleaned track"),
+    },
+    annotations: {
+      title: "Isolate Voice",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ filePath, title }) => {
+    try {
+      const absolutePath = await resolveExistingFile(filePath);
+      const client = getClient();
+      const response = await client.audioIsolation.convert({
+        audio: { path: absolutePath },
+      });
+
+      // The isolation endpoint always returns MP3
+      const outputPath = await generateSiblingPath(absolutePath, "isolated", ".mp3");
+      await saveStreamToFile(response, outputPath);
+
+      const sourceName = path.basename(absolutePath);
+      const batchId = Date.now();
+      const trackTitle = title || `Isolated: ${sourceName}`;
+      // The MP3's bitrate isn't known, so neither is its duration
+      await recordGeneration("isolation", outputPath, trackTitle, null, { source_file: absolutePath });
+
+      return {
+        content: [{ type: "text" as const, text: `Isolated voice from ${sourceName}, saved to ${outputPath}` }],
+        structuredContent: {
+          tracks: [
+            {
+              id: `${batchId}-0`,
+              filePath: absolutePath,
+              title: `Original: ${sourceName}`,
+            },
+            {
+              id: `${batchId}-1`,
+              filePath: outputPath,
+              title: trackTitle,
+              artist: "ElevenLabs Voice Isolator",
+            },
+          ],
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to isolate voice: ${message}` }],
+      };
+    }
+  }
+);
+
+// Library results as player tracks, skipping files that were moved or deleted
+async function libraryEntriesToTracks(entries: LibraryEntry[]) {
+  const tracks = [];
+  for (const entry of entries) {
+    try {
+      await fs.access(entry.file_path);
+      tracks.push({
+        id: `library-${entry.id}`,
+        filePath: entry.file_path,
+        title: entry.title,
+        artist: new Date(entry.created_at).toLocaleString(),
+      });
+    } catch {
+      // File no longer exists
+    }
+  }
+  return tracks;
+}
+
+function formatLibraryEntry(entry: LibraryEntry): string {
+  const duration = entry.duration_seconds !== null ? `, ${entry.duration_seconds.toFixed(1)}s` : "";
+  return `- [${entry.type}] ${entry.title} (${entry.created_at}${duration}): ${entry.file_path}`;
+}
+
+const generationTypeSchema = z.enum(["tts", "sfx", "music", "dialogue", "voice_preview", "sts", "isolation"]);
+
+// Register list_generations tool
+server.registerTool(
+  "list_generations",
+  {
+    title: "List Generations",
+    description: "Lists previously generated audio from the library in the output directory, newest first, and adds the files to the player. Each entry includes the full parameters that produced it.",
+    inputSchema: {
+      type: generationTypeSchema.optional().describe("Only list generations of this type"),
+      limit: z.number().int().min(1).max(200).optional().describe("Maximum number of entries (default: 20)"),
+    },
+    annotations: {
+      title: "List Generations",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ type, limit }) => {
+    try {
+      const entries = searchLibrary(await readLibrary(getOutputDir()), { type }).slice(0, limit ?? 20);
+      const tracks = await libraryEntriesToTracks(entries);
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: entries.length === 0
+            ? "No generations found in the library"
+            : `${entries.length} generation(s):\n${entries.map(formatLibraryEntry).join("\n")}`,
+        }],
+        structuredContent: { generations: entries, tracks },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to list generations: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register search_generations tool
+server.registerTool(
+  "search_generations",
+  {
+    title: "Search Generations",
+    description: "Searches previously generated audio by text, voice, type and date, newest first, and adds the matching files to the player.",
+    inputSchema: {
+      query: z.string().optional().describe("Text to find in the title, spoken text, prompt or voice description (case-insensitive)"),
+      type: generationTypeSchema.optional().describe("Only match generations of this type"),
+      voice_id: z.string().optional().describe("Only match generations using this voice"),
+      since: z.string().optional().describe("Only match generations on or after this ISO date, e.g. 2026-01-31"),
+      until: z.string().optional().describe("Only match generations on or before this ISO date"),
+      limit: z.number().int().min(1).max(200).optional().describe("Maximum number of entries (default: 20)"),
+    },
+    annotations: {
+      title: "Search Generations",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    _meta: { ui: { resourceUri: RESOURCE_URI } },
+  },
+  async ({ query, type, voice_id, since, until, limit }) => {
+    try {
+      for (const [name, value] of [["since", since], ["until", until]] as const) {
+        if (value && Number.isNaN(Date.parse(value))) {
+          throw new Error(`Invalid ${name} date: ${value}`);
+        }
+      }
+
+      const entries = searchLibrary(await readLibrary(getOutputDir()), { query, type, voice_id, since, until })
+        .slice(0, limit ?? 20);
+      const tracks = await libraryEntriesToTracks(entries);
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: entries.length === 0
+            ? "No generations matched the search"
+            : `${entries.length} matching generation(s):\n${entries.map(formatLibraryEntry).join("\n")}`,
+        }],
+        structuredContent: { generations: entries, tracks },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to search generations: ${message}` }],
+      };
+    }
+  }
+);
+
+// Register get_usage tool
+server.registerTool(
+  "get_usage",
+  {
+    title: "Get Usage",
+    description: "Summarizes credits spent by the generation tools this session, today and over recent days, alongside the configured budgets and the account's remaining credits.",
+    inputSchema: {
+      days: z.number().int().min(1).max(365).optional().describe("How many days of history to summarize (default: 30)"),
+    },
+    annotations: {
+      title: "Get Usage",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  async ({ days }) => {
+    try {
+      const entries = await readLedger(getOutputDir());
+      const since = Date.now() - (days ?? 30) * 24 * 60 * 60 * 1000;
+      const budget = getBudget();
+      const session = summarizeUsage(sessionEntries(entries));
+      const today = summarizeUsage(todayEntries(entries));
+      const period = summarizeUsage(entries.filter((entry) => Date.parse(entry.created_at) >= since));
+
+      // The account quota is informative only; keys without user access can't read it
+      let account: { tier: string; credits_used: number; credit_limit: number; credits_remaining: number; resets_at?: string } | undefined;
+      try {
+        const subscription = await getClient().user.subscription.get();
+        account = {
+          tier: subscription.tier,
+          credits_used: subscription.characterCount,
+          credit_limit: subscription.characterLimit,
+          credits_remaining: subscription.characterLimit - subscription.characterCount,
+          resets_at: subscription.nextCharacterCountResetUnix
+            ? new Date(subscription.nextCharacterCountResetUnix * 1000).toISOString()
+            : undefined,
+        };
+      } catch (error) {
+        console.error("[ElevenLabs Player] Could not read subscription for usage summary:", error);
+      }
+
+      const formatBudget = (used: number, limit: number | undefined) =>
+        limit === undefined ? `${used} credits (no budget)` : `${used} of ${limit} credits`;
+      const lines = [
+        `This session: ${formatBudget(session.credits, budget.session)} across ${session.calls} call(s)`,
+        `Today: ${formatBudget(today.credits, budget.daily)} across ${today.calls} call(s)`,
+        `Last ${days ?? 30} days: ${period.credits} credits across ${period.calls} call(s)`
+          + (period.calls > 0 ? ` (${Object.entries(period.by_type).map(([type, credits]) => `${type}: ${credits}`).join(", ")})` : ""),
+      ];
+      if (account) {
+        lines.push(`Account (${account.tier}): ${account.credits_remaining} of ${account.credit_limit} credits remaining`);
+      }
+
+      return {
+        content: [{ type: "text" as const, text: lines.join("\n") }],
+        structuredContent: {
+          session: { ...session, budget: budget.session },
+          today: { ...today, budget: budget.daily },
+          period: { ...period, days: days ?? 30 },
+          account,
+          ledger_path: getLedgerPath(getOutputDir()),
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return {
+        isError: true as const,
+        content: [{ type: "text" as const, text: `Failed to get usage: ${message}` }],
+      };
     }
   }
 );
@@ -363,7 +2880,13 @@ server.registerResource(
   async () => {
     const html = await fs.readFile(path.join(DIST_DIR, "mcp-app.html"), "utf-8");
     return {
-      contents: [{ uri: RESOURCE_URI, mimeType: RESOURCE_MIME_TYPE, text: html }],
+      contents: [{
+        uri: RESOURCE_URI,
+        mimeType: RESOURCE_MIME_TYPE,
+        text: html,
+        // Streaming speech plays straight from the local audio server
+        _meta: { ui: { csp: { resourceDomains: [getAudioServerOrigin()], connectDomains: [getAudioServerOrigin()] } } },
+      }],
     };
   }
 );
@@ -0,0 +1,121 @@
+/**
+ * Helpers for turning ElevenLabs character-level timestamps into word timings
+ * that the player can use to highlight a transcript.
+ */
+
+/**
+ * Character-level alignment as returned by the timestamped TTS endpoints.
+ */
+export interface CharacterAlignment {
+  characters: string[];
+  characterStartTimesSeconds: number[];
+  characterEndTimesSeconds: number[];
+}
+
+/**
+ * A word of a transcript with its position in the audio, in seconds.
+ */
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  speaker?: string;
+}
+
+/**
+ * A run of consecutive words, e.g. a sentence or a speaker turn.
+ */
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+  speaker?: string;
+}
+
+/**
+ * Groups a character alignment into whitespace-separated words.
+ *
+ * Punctuation stays attached to the word it follows, so the words read like
+ * the original script.
+ *
+ * @param alignment - Character alignment from the API.
+ * @param offsetSeconds - Added to every timestamp, for chunks of a longer file.
+ * @param speakerAt - Optionally names the speaker of the word starting at a character index.
+ */
+export function wordsFromCharacterAlignment(
+  alignment: CharacterAlignment,
+  offsetSeconds = 0,
+  speakerAt?: (charIndex: number) => string | undefined,
+): TranscriptWord[] {
+  const words: TranscriptWord[] = [];
+  let current: TranscriptWord | null = null;
+
+  alignment.characters.forEach((char, i) => {
+    if (/\s/.test(char)) {
+      current = null;
+      return;
+    }
+    const start = alignment.characterStartTimesSeconds[i] + offsetSeconds;
+    const end = alignment.characterEndTimesSeconds[i] + offsetSeconds;
+    if (current) {
+      current.text += char;
+      current.end = end;
+    } else {
+      current = { text: char, start, end, speaker: speakerAt?.(i) };
+      words.push(current);
+    }
+  });
+
+  return words;
+}
+
+/**
+ * Joins the alignments of consecutive chunks into one, shifting each chunk by
+ * the given start offset.
+ */
+export function concatAlignments(parts: { alignment: CharacterAlignment; offsetSeconds: number }[]): CharacterAlignment {
+  const result: CharacterAlignment = {
+    characters: [],
+    characterStartTimesSeconds: [],
+    characterEndTimesSeconds: [],
+  };
+
+  parts.forEach(({ alignment, offsetSeconds }, i) => {
+    // Keep words of neighbouring chunks apart
+    if (i > 0) {
+      const previousEnd = result.characterEndTimesSeconds.at(-1) ?? offsetSeconds;
+      result.characters.push(" ");
+      result.characterStartTimesSeconds.push(previousEnd);
+      result.characterEndTimesSeconds.push(offsetSeconds);
+    }
+    result.characters.push(...alignment.characters);
+    result.characterStartTimesSeconds.push(...alignment.characterStartTimesSeconds.map((t) => t + offsetSeconds));
+    result.characterEndTimesSeconds.push(...alignment.characterEndTimesSeconds.map((t) => t + offsetSeconds));
+  });
+
+  return result;
+}
+
+/**
+ * Groups words into segments, starting a new segment whenever the speaker
+ * changes or a sentence ends.
+ */
+export function segmentsFromWords(words: TranscriptWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | null = null;
+
+  for (const word of words) {
+    if (!current || current.speaker !== word.speaker) {
+      current = { text: word.text, start: word.start, end: word.end, speaker: word.speaker };
+      segments.push(current);
+    } else {
+      current.text += ` ${word.text}`;
+      current.end = word.end;
+    }
+    if (/[.!?…]["'”’)\]]*$/.test(word.text)) {
+      current = null;
+    }
+  }
+
+  return segments;
+}
@@ -0,0 +1,366 @@
+/**
+ * Registry of the audio formats the player knows: their file extensions, MIME
+ * types, how to recognise them from their first bytes, and whether the
+ * player's webview can decode them.
+ *
+ * The container is detected from the file's content, so a mislabelled file
+ * is still served with the right type, and files the webview can't play are
+ * rejected up front instead of failing silently in the player.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const SNIFF_BYTES = 4096;
+// Largest moov box read from the end of an MP4 file to find its tracks
+const MAX_MOOV_BYTES = 4 * 1024 * 1024;
+
+/**
+ * An audio format known to the player.
+ */
+export interface AudioFormat {
+  name: string;
+  /** Extensions including the dot, the first being the usual one. */
+  extensions: string[];
+  mimeType: string;
+  /** Whether the player's webview can decode the format. */
+  playable: boolean;
+  /** Why the format can't be played, for formats that aren't playable. */
+  reason?: string;
+  /** Recognises the format from the start of a file, after any ID3 tag. */
+  matches: (head: Buffer) => boolean;
+}
+
+const ascii = (head: Buffer, offset: number, text: string) => head.toString("latin1", offset, offset + text.length) === text;
+
+// An MPEG audio frame header: 11 sync bits, then a valid version, layer,
+// bitrate and sample rate
+function isMpegFrame(head: Buffer, offset = 0): boolean {
+  return head[offset] === 0xff
+    && (head[offset + 1] & 0xe0) === 0xe0
+    && ((head[offset + 1] >> 3) & 0x03) !== 1
+    && ((head[offset + 1] >> 1) & 0x03) !== 0
+    && head[offset + 2] >> 4 !== 15
+    && ((head[offset + 2] >> 2) & 0x03) !== 3;
+}
+
+// An ADTS (raw AAC) frame header: 12 sync bits and a layer of 0
+function isAdtsFrame(head: Buffer): boolean {
+  return head[0] === 0xff && (head[1] & 0xf6) === 0xf0;
+}
+
+// An MP4 box: its type and the extent of its payload
+interface Mp4Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+// The boxes laid out between `start` and `end`, stopping at the first one
+// that doesn't fit
+function readBoxes(head: Buffer, start = 0, end = head.length): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    let size = head.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(head.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type: head.toString("latin1", offset + 4, offset + 8), start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+// Brands that only mark audio files, and generic brands that may hold
+// anything, so their tracks decide
+const MP4_AUDIO_BRANDS = new Set(["M4A ", "M4B "]);
+const MP4_GENERIC_BRANDS = new Set(["isom", "iso2", "mp41", "mp42"]);
+
+// An MP4 file whose brands mark it as audio, or a generic MP4 whose moov box
+// holds sound tracks and no video
+function isAudioMp4(head: Buffer): boolean {
+  if (!ascii(head, 4, "ftyp")) return false;
+  const [ftyp, ...rest] = readBoxes(head);
+  if (!ftyp || ftyp.end - ftyp.start < 8) return false;
+  const brands = [head.toString("latin1", ftyp.start, ftyp.start + 4)];
+  for (let offset = ftyp.start + 8; offset + 4 <= ftyp.end; offset += 4) {
+    brands.push(head.toString("latin1", offset, offset + 4));
+  }
+  if (brands.some((brand) => MP4_AUDIO_BRANDS.has(brand))) return true;
+  if (!brands.some((brand) => MP4_GENERIC_BRANDS.has(brand))) return false;
+
+  const moov = rest.find((box) => box.type === "moov");
+  if (!moov) return false;
+  const handlers = readBoxes(head, moov.start, moov.end)
+    .filter((box) => box.type === "trak")
+    .flatMap((trak) => readBoxes(head, trak.start, trak.end).filter((box) => box.type === "mdia"))
+    .flatMap((mdia) => readBoxes(head, mdia.start, mdia.end).filter((box) => box.type === "hdlr"))
+    .map((hdlr) => head.toString("latin1", hdlr.start + 8, hdlr.start + 12));
+  return handlers.includes("soun") && !handlers.includes("vide");
+}
+
+// An EBML variable-length integer at `offset`: its byte length and its value,
+// with the length marker kept for element IDs
+function readVint(head: Buffer, offset: number, keepMarker: boolean): { length: number; value: number } | undefined {
+  const first = head[offset];
+  if (first === undefined || first === 0) return undefined;
+  const length = Math.clz32(first) - 23;
+  if (length > 6 || offset + length > head.length) return undefined;
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + head[offset + i];
+  return { length, value };
+}
+
+// An EBML header declaring the "webm" document type
+function isWebm(head: Buffer): boolean {
+  if (head.readUInt32BE(0) !== 0x1a45dfa3) return false;
+  const headerSize = readVint(head, 4, false);
+  if (!headerSize) return false;
+  const end = Math.min(head.length, 4 + headerSize.length + headerSize.value);
+  for (let offset = 4 + headerSize.length; offset < end;) {
+    const id = readVint(head, offset, true);
+    const size = id && readVint(head, offset + id.length, false);
+    if (!id || !size) return false;
+    const start = offset + id.length + size.length;
+    // DocType
+    if (id.value === 0x4282) return head.toString("latin1", start, start + size.value).replace(/\0+$/, "") === "webm";
+    offset = start + size.value;
+  }
+  return false;
+}
+
+/**
+ * All known formats. More specific formats come first, e.g. Opus before
+ * other Ogg streams.
+ */
+export const AUDIO_FORMATS: AudioFormat[] = [
+  {
+    name: "MP3",
+    extensions: [".mp3"],
+    mimeType: "audio/mpeg",
+    playable: true,
+    matches: (head) => isMpegFrame(head),
+  },
+  {
+    name: "AAC",
+    extensions: [".aac"],
+    mimeType: "audio/aac",
+    playable: true,
+    matches: isAdtsFrame,
+  },
+  {
+    name: "WAV",
+    extensions: [".wav", ".wave"],
+    mimeType: "audio/wav",
+    playable: true,
+    matches: (head) => ascii(head, 0, "RIFF") && ascii(head, 8, "WAVE"),
+  },
+  {
+    name: "FLAC",
+    extensions: [".flac"],
+    mimeType: "audio/flac",
+    playable: true,
+    matches: (head) => ascii(head, 0, "fLaC"),
+  },
+  {
+    name: "Opus",
+    extensions: [".opus"],
+    mimeType: "audio/ogg",
+    playable: true,
+    matches: (head) => ascii(head, 0, "OggS") && ascii(head, 28, "OpusHead"),
+  },
+  {
+    name: "Ogg",
+    extensions: [".ogg", ".oga"],
+    mimeType: "audio/ogg",
+    playable: true,
+    matches: (head) => ascii(head, 0, "OggS"),
+  },
+  {
+    name: "M4A",
+    extensions: [".m4a", ".m4b", ".mp4"],
+    mimeType: "audio/mp4",
+    playable: true,
+    matches: isAudioMp4,
+  },
+  {
+    name: "WebM",
+    extensions: [".webm", ".weba"],
+    mimeType: "audio/webm",
+    playable: true,
+    matches: isWebm,
+  },
+  {
+    name: "AIFF",
+    extensions: [".aif", ".aiff", ".aifc"],
+    mimeType: "audio/aiff",
+    playable: false,
+    reason: "the player's webview can't decode AIFF. Convert it to WAV or FLAC",
+    matches: (head) => ascii(head, 0, "FORM") && (ascii(head, 8, "AIFF") || ascii(head, 8, "AIFC")),
+  },
+  {
+    name: "CAF",
+    extensions: [".caf"],
+    mimeType: "audio/x-caf",
+    playable: false,
+    reason: "the player's webview can't decode Core Audio Format files. Convert it to WAV, M4A or FLAC",
+    matches: (head) => ascii(head, 0, "caff"),
+  },
+];
+
+/** Extensions of all known formats, for finding audio files in folders. */
+export const AUDIO_EXTENSIONS = AUDIO_FORMATS.flatMap((format) => format.extensions);
+
+// WAVE format tags the webview decodes: PCM, IEEE float, A-law and µ-law.
+// WAVE_FORMAT_EXTENSIBLE carries the real tag in its sub-format.
+const PLAYABLE_WAVE_TAGS = new Set([0x0001, 0x0003, 0x0006, 0x0007]);
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Looks up a format by file extension.
+ */
+export function getFormatByExtension(filePath: string): AudioFormat | undefined {
+  const extension = path.extname(filePath).toLowerCase();
+  return AUDIO_FORMATS.find((format) => format.extensions.includes(extension));
+}
+
+/**
+ * Recognises a format from the first bytes of a file or buffer. An ID3 tag at
+ * the start is skipped if the head covers it; a longer tag means MP3.
+ */
+export function sniffAudioFormat(head: Uint8Array): AudioFormat | undefined {
+  let bytes = Buffer.from(head.buffer, head.byteOffset, head.byteLength);
+  if (bytes.length >= 10 && ascii(bytes, 0, "ID3")) {
+    const tagSize = id3TagSize(bytes);
+    if (tagSize + 12 > bytes.length) return getFormatByExtension(".mp3");
+    bytes = bytes.subarray(tagSize);
+  }
+  if (bytes.length < 12) return undefined;
+  return AUDIO_FORMATS.find((format) => format.matches(bytes));
+}
+
+/**
+ * Detects the format of a file from its content, reading past a leading ID3
+ * tag. MP3 and AAC files with a few bytes of junk before the first frame are
+ * recognised by their extension. Returns undefined for unknown content.
+ */
+export async function detectAudioFormat(filePath: string): Promise<AudioFormat | undefined> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const read = async (offset: number) => {
+      const buffer = Buffer.alloc(SNIFF_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, offset);
+      return buffer.subarray(0, bytesRead);
+    };
+
+    let offset = 0;
+    let head: Buffer = await read(0);
+    if (head.length >= 10 && ascii(head, 0, "ID3")) {
+      offset = id3TagSize(head);
+      head = await read(offset);
+    }
+
+    // An MP4's tracks are listed in its moov box, which may come after the audio
+    if (ascii(head, 4, "ftyp")) head = await readMp4Head(handle, offset, head);
+
+    const sniffed = head.length >= 12 ? AUDIO_FORMATS.find((format) => format.matches(head)) : undefined;
+    if (sniffed) return sniffed;
+
+    const byExtension = getFormatByExtension(filePath);
+    if (byExtension && (byExtension.name === "MP3" || byExtension.name === "AAC")) {
+      for (let i = 1; i + 4 <= head.length; i++) {
+        if (byExtension.name === "MP3" ? isMpegFrame(head, i) : isAdtsFrame(head.subarray(i))) return byExtension;
+      }
+    }
+    // An ID3 tag is only used for MP3 and AAC, so take it as a hint
+    return offset > 0 ? byExtension ?? getFormatByExtension(".mp3") : undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * The MIME type to serve a file with: from its content, then its extension.
+ */
+export async function getAudioMimeType(filePath: string): Promise<string> {
+  const format = await detectAudioFormat(filePath).catch(() => undefined);
+  return (format ?? getFormatByExtension(filePath))?.mimeType ?? "application/octet-stream";
+}
+
+/**
+ * Checks that the player can decode a file, and returns its format. Throws an
+ * error explaining why otherwise.
+ */
+export async function checkPlayable(filePath: string): Promise<AudioFormat> {
+  const format = await detectAudioFormat(filePath);
+  if (!format) {
+    const playable = AUDIO_FORMATS.filter((f) => f.playable).map((f) => f.name).join(", ");
+    throw new Error(`Can't play ${filePath}: its content isn't a recognised audio format (playable formats: ${playable})`);
+  }
+  if (!format.playable) {
+    throw new Error(`Can't play ${filePath}: ${format.reason}`);
+  }
+  if (format.name === "WAV") {
+    const tag = await readWaveFormatTag(filePath);
+    if (tag !== undefined && !PLAYABLE_WAVE_TAGS.has(tag)) {
+      throw new Error(`Can't play ${filePath}: the player's webview only decodes WAV files with PCM, float, A-law or µ-law audio, not format 0x${tag.toString(16).padStart(4, "0")}. Convert it to PCM WAV`);
+    }
+  }
+  return format;
+}
+
+// Read the codec tag from a WAV file's fmt chunk
+async function readWaveFormatTag(filePath: string): Promise<number | undefined> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const head = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(head, 0, SNIFF_BYTES, 0);
+    for (let offset = 12; offset + 8 <= bytesRead;) {
+      const length = head.readUInt32LE(offset + 4);
+      if (ascii(head, offset, "fmt ") && offset + 10 <= bytesRead) {
+        const tag = head.readUInt16LE(offset + 8);
+        // The sub-format GUID starts with the real tag
+        if (tag === WAVE_FORMAT_EXTENSIBLE && offset + 34 <= bytesRead) return head.readUInt16LE(offset + 32);
+        return tag;
+      }
+      offset += 8 + length + (length % 2);
+    }
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+// The ftyp box of an MP4 file followed by its moov box, read from wherever it
+// is among the top-level boxes. The head is returned as is without one
+async function readMp4Head(handle: fs.FileHandle, start: number, head: Buffer): Promise<Buffer> {
+  const [ftyp] = readBoxes(head);
+  if (!ftyp) return head;
+  const box = Buffer.alloc(16);
+  for (let offset = start + ftyp.end; ;) {
+    const { bytesRead } = await handle.read(box, 0, 16, offset);
+    if (bytesRead < 8) return head;
+    let size = box.readUInt32BE(0);
+    if (size === 1 && bytesRead === 16) size = Number(box.readBigUInt64BE(8));
+    if (size < 8) return head;
+    if (ascii(box, 4, "moov")) {
+      if (size > MAX_MOOV_BYTES) return head;
+      const moov = Buffer.alloc(size);
+      const { bytesRead: moovRead } = await handle.read(moov, 0, size, offset);
+      return Buffer.concat([head.subarray(0, ftyp.end), moov.subarray(0, moovRead)]);
+    }
+    offset += size;
+  }
+}
+
+function id3TagSize(head: Buffer): number {
+  const size = head.readUInt32BE(6);
+  const unsynced = (size & 0x7f) | ((size >> 1) & 0x3f80) | ((size >> 2) & 0x1fc000) | ((size >> 3) & 0xfe00000);
+  return 10 + unsynced + (head[5] & 0x10 ? 10 : 0);
+}
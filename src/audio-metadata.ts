@@ -0,0 +1,590 @@
+/**
+ * Reads embedded metadata from local audio files: title, artist, album,
+ * duration and cover art.
+ *
+ * Supports ID3v1 and ID3v2 (MP3, and WAV `id3 ` chunks), Vorbis comments
+ * (FLAC, Ogg Vorbis and Opus), MP4 atoms (M4A/AAC) and RIFF INFO (WAV). Files
+ * are read in ranges rather than whole, and anything that can't be parsed is
+ * simply left out.
+ */
+
+import fs from "node:fs/promises";
+import { inflateSync } from "node:zlib";
+
+// Cover art is sent to the player inline, so very large images are skipped
+const MAX_ARTWORK_BYTES = 1024 * 1024;
+// Upper bound for a single tag, header or metadata block read into memory
+const MAX_BLOCK_BYTES = 16 * 1024 * 1024;
+const OGG_TAIL_BYTES = 64 * 1024;
+const MP3_SYNC_SCAN_BYTES = 64 * 1024;
+
+/**
+ * Metadata found in an audio file. Fields the file doesn't provide are left
+ * undefined.
+ */
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration_seconds?: number;
+  /** Cover art as a data URL. */
+  artwork?: string;
+}
+
+interface Picture {
+  mimeType: string;
+  type: number; // ID3/FLAC picture type; 3 is the front cover
+  data: Buffer;
+}
+
+interface RawMetadata extends Omit<AudioMetadata, "artwork"> {
+  pictures: Picture[];
+}
+
+type ReadAt = (offset: number, length: number) => Promise<Buffer>;
+
+/**
+ * Reads the metadata of an audio file. Never throws for unsupported or
+ * malformed files; it returns whatever it could read.
+ */
+export async function readAudioMetadata(filePath: string): Promise<AudioMetadata> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(filePath, "r");
+  } catch {
+    return {};
+  }
+
+  try {
+    const { size } = await handle.stat();
+    const readAt: ReadAt = async (offset, length) => {
+      const clamped = Math.max(0, Math.min(length, size - offset, MAX_BLOCK_BYTES));
+      const buffer = Buffer.alloc(clamped);
+      if (clamped > 0) {
+        await handle.read(buffer, 0, clamped, offset);
+      }
+      return buffer;
+    };
+
+    const raw: RawMetadata = { pictures: [] };
+    try {
+      await parseFile(readAt, size, raw);
+    } catch (error) {
+      console.error(`[ElevenLabs Player] Could not read all metadata from ${filePath}:`, error);
+    }
+
+    const { pictures, ...metadata } = raw;
+    const cover = pictures.find((p) => p.type === 3) ?? pictures[0];
+    return {
+      ...metadata,
+      artwork: cover && cover.data.length <= MAX_ARTWORK_BYTES
+        ? `data:${cover.mimeType};base64,${cover.data.toString("base64")}`
+        : undefined,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+async function parseFile(readAt: ReadAt, size: number, out: RawMetadata): Promise<void> {
+  const head = await readAt(0, 12);
+  const magic = head.toString("latin1", 0, 4);
+
+  if (magic === "RIFF" && head.toString("latin1", 8, 12) === "WAVE") {
+    return parseWav(readAt, size, out);
+  }
+  if (head.toString("latin1", 4, 8) === "ftyp") {
+    return parseMp4(readAt, size, out);
+  }
+  if (magic === "OggS") {
+    return parseOgg(readAt, size, out);
+  }
+
+  // MP3, or occasionally FLAC, may start with an ID3v2 tag
+  let offset = 0;
+  if (head.toString("latin1", 0, 3) === "ID3") {
+    const tagSize = id3TagSize(head);
+    parseId3v2(await readAt(0, tagSize), out);
+    offset = tagSize;
+  }
+  if ((await readAt(offset, 4)).toString("latin1") === "fLaC") {
+    return parseFlac(readAt, offset + 4, out);
+  }
+  await parseMp3(readAt, size, offset, out);
+}
+
+// Keep the first value found for each field
+function setText(out: RawMetadata, field: "title" | "artist" | "album", value: string | undefined): void {
+  const trimmed = value?.replace(/\0+$/, "").trim();
+  if (trimmed && !out[field]) out[field] = trimmed;
+}
+
+// ---------------------------------------------------------------------------
+// ID3
+
+const ID3_TEXT_FRAMES: Record<string, "title" | "artist" | "album"> = {
+  TIT2: "title", TT2: "title",
+  TPE1: "artist", TP1: "artist",
+  TALB: "album", TAL: "album",
+};
+
+function id3TagSize(header: Buffer): number {
+  const footer = header[5] & 0x10 ? 10 : 0;
+  return 10 + syncsafe(header.readUInt32BE(6)) + footer;
+}
+
+function syncsafe(value: number): number {
+  return (value & 0x7f) | ((value >> 1) & 0x3f80) | ((value >> 2) & 0x1fc000) | ((value >> 3) & 0xfe00000);
+}
+
+// Undo unsynchronisation: every 0xFF 0x00 pair was written for a lone 0xFF
+function resync(data: Buffer): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    bytes.push(data[i]);
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return Buffer.from(bytes);
+}
+
+function parseId3v2(tag: Buffer, out: RawMetadata): void {
+  if (tag.length < 10) return;
+  const version = tag[3];
+  const flags = tag[5];
+  let body = tag.subarray(10, id3TagSize(tag) - (flags & 0x10 ? 10 : 0));
+  if (flags & 0x80 && version < 4) body = resync(body);
+
+  let offset = 0;
+  if (flags & 0x40) {
+    offset = version === 4 ? syncsafe(body.readUInt32BE(0)) : 4 + body.readUInt32BE(0);
+  }
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  while (offset + headerLength <= body.length) {
+    const id = body.toString("latin1", offset, offset + idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+    const frameSize = version === 2
+      ? body.readUIntBE(offset + 3, 3)
+      : version === 4 ? syncsafe(body.readUInt32BE(offset + 4)) : body.readUInt32BE(offset + 4);
+    const formatFlags = version === 2 ? 0 : body[offset + 9];
+    const data = decodeFrameFlags(body.subarray(offset + headerLength, offset + headerLength + frameSize), version, formatFlags);
+    offset += headerLength + frameSize;
+    if (!data) continue;
+
+    if (ID3_TEXT_FRAMES[id]) {
+      setText(out, ID3_TEXT_FRAMES[id], decodeId3Text(data[0], data.subarray(1)).replace(/\0+$/, "").replace(/\0/g, " / "));
+    } else if (id === "TLEN" && out.duration_seconds === undefined) {
+      const ms = Number(decodeId3Text(data[0], data.subarray(1)));
+      if (ms > 0) out.duration_seconds = ms / 1000;
+    } else if (id === "APIC" || id === "PIC") {
+      const picture = parseId3Picture(id, data);
+      if (picture) out.pictures.push(picture);
+    }
+  }
+}
+
+// Apply per-frame flags; returns null for frames that can't be read
+function decodeFrameFlags(data: Buffer, version: number, flags: number): Buffer | null {
+  if (version === 3) {
+    if (flags & 0x40) return null; // Encrypted
+    let offset = flags & 0x80 ? 4 : 0; // Decompressed size
+    if (flags & 0x20) offset++; // Group identifier
+    data = data.subarray(offset);
+    return flags & 0x80 ? inflateSync(data) : data;
+  }
+  if (version === 4) {
+    if (flags & 0x04) return null; // Encrypted
+    let offset = flags & 0x40 ? 1 : 0; // Group identifier
+    if (flags & 0x01) offset += 4; // Data length indicator
+    data = data.subarray(offset);
+    if (flags & 0x02) data = resync(data);
+    return flags & 0x08 ? inflateSync(data) : data;
+  }
+  return data;
+}
+
+function decodeId3Text(encoding: number, data: Buffer): string {
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with BOM
+      if (data[0] === 0xfe && data[1] === 0xff) return swapBytes(data.subarray(2)).toString("utf16le");
+      if (data[0] === 0xff && data[1] === 0xfe) return data.subarray(2).toString("utf16le");
+      return data.toString("utf16le");
+    }
+    case 2:
+      return swapBytes(data).toString("utf16le");
+    case 3:
+      return data.toString("utf-8");
+    default:
+      return data.toString("latin1");
+  }
+}
+
+function swapBytes(data: Buffer): Buffer {
+  const copy = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+  return copy.swap16();
+}
+
+// Find the end of a null-terminated string in the given text encoding
+function terminatorEnd(data: Buffer, start: number, encoding: number): number {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < data.length; i += 2) {
+      if (data[i] === 0 && data[i + 1] === 0) return i + 2;
+    }
+    return data.length;
+  }
+  const end = data.indexOf(0, start);
+  return end === -1 ? data.length : end + 1;
+}
+
+function parseId3Picture(id: string, data: Buffer): Picture | null {
+  const encoding = data[0];
+  let offset = 1;
+  let mimeType: string;
+  if (id === "PIC") {
+    const format = data.toString("latin1", 1, 4).toUpperCase();
+    mimeType = format === "PNG" ? "image/png" : "image/jpeg";
+    offset = 4;
+  } else {
+    const end = terminatorEnd(data, offset, 0);
+    mimeType = data.toString("latin1", offset, end - 1) || "image/jpeg";
+    offset = end;
+  }
+  if (mimeType === "-->") return null; // Linked, not embedded
+  const type = data[offset];
+  offset = terminatorEnd(data, offset + 1, encoding);
+  return { mimeType: normalizeImageMime(mimeType), type, data: data.subarray(offset) };
+}
+
+function normalizeImageMime(mimeType: string): string {
+  const lower = mimeType.toLowerCase();
+  if (lower === "jpg" || lower === "image/jpg") return "image/jpeg";
+  return lower.includes("/") ? lower : `image/${lower}`;
+}
+
+function parseId3v1(tag: Buffer, out: RawMetadata): void {
+  const field = (start: number, end: number) => tag.toString("latin1", start, end).replace(/\0.*$/, "");
+  setText(out, "title", field(3, 33));
+  setText(out, "artist", field(33, 63));
+  setText(out, "album", field(63, 93));
+}
+
+// ---------------------------------------------------------------------------
+// MP3
+
+const MP3_BITRATES: Record<string, number[]> = {
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+async function parseMp3(readAt: ReadAt, size: number, audioStart: number, out: RawMetadata): Promise<void> {
+  let audioEnd = size;
+  if (size >= audioStart + 128) {
+    const v1 = await readAt(size - 128, 128);
+    if (v1.toString("latin1", 0, 3) === "TAG") {
+      parseId3v1(v1, out);
+      audioEnd -= 128;
+    }
+  }
+
+  const scan = await readAt(audioStart, MP3_SYNC_SCAN_BYTES);
+  for (let i = 0; i + 4 <= scan.length; i++) {
+    if (scan[i] !== 0xff || (scan[i + 1] & 0xe0) !== 0xe0) continue;
+    const versionBits = (scan[i + 1] >> 3) & 0x03;
+    const layerBits = (scan[i + 1] >> 1) & 0x03;
+    const bitrateIndex = scan[i + 2] >> 4;
+    const sampleRateIndex = (scan[i + 2] >> 2) & 0x03;
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) continue;
+
+    const mpeg1 = versionBits === 3;
+    const layer = 4 - layerBits;
+    const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+    const bitrate = MP3_BITRATES[`${mpeg1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+    const mono = (scan[i + 3] >> 6) === 3;
+
+    // A Xing/Info or VBRI header in the first frame gives the exact frame count
+    const xingOffset = i + 4 + (mpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+    let frames: number | undefined;
+    const xingId = scan.toString("latin1", xingOffset, xingOffset + 4);
+    if ((xingId === "Xing" || xingId === "Info") && scan.readUInt32BE(xingOffset + 4) & 0x01) {
+      frames = scan.readUInt32BE(xingOffset + 8);
+    } else if (scan.toString("latin1", i + 36, i + 40) === "VBRI") {
+      frames = scan.readUInt32BE(i + 36 + 14);
+    }
+
+    const duration = frames !== undefined
+      ? (frames * samplesPerFrame) / sampleRate
+      : ((audioEnd - audioStart - i) * 8) / bitrate;
+    // Prefer the measured duration over a TLEN frame, which is often stale
+    if (duration > 0) out.duration_seconds = duration;
+    return;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// FLAC and Vorbis comments
+
+async function parseFlac(readAt: ReadAt, offset: number, out: RawMetadata): Promise<void> {
+  for (let last = false; !last;) {
+    const header = await readAt(offset, 4);
+    if (header.length < 4) return;
+    last = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = header.readUIntBE(1, 3);
+
+    if (type === 0) {
+      const info = await readAt(offset + 4, length);
+      const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+      const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+      if (sampleRate > 0 && totalSamples > 0) out.duration_seconds = totalSamples / sampleRate;
+    } else if (type === 4) {
+      parseVorbisComments(await readAt(offset + 4, length), out);
+    } else if (type === 6) {
+      const picture = parseFlacPicture(await readAt(offset + 4, length));
+      if (picture) out.pictures.push(picture);
+    }
+    offset += 4 + length;
+  }
+}
+
+function parseVorbisComments(data: Buffer, out: RawMetadata): void {
+  let offset = 4 + data.readUInt32LE(0); // Vendor string
+  const count = data.readUInt32LE(offset);
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(offset);
+    const comment = data.toString("utf-8", offset + 4, offset + 4 + length);
+    offset += 4 + length;
+
+    const separator = comment.indexOf("=");
+    if (separator === -1) continue;
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+    if (key === "TITLE") setText(out, "title", value);
+    else if (key === "ARTIST") setText(out, "artist", value);
+    else if (key === "ALBUM") setText(out, "album", value);
+    else if (key === "METADATA_BLOCK_PICTURE") {
+      const picture = parseFlacPicture(Buffer.from(value, "base64"));
+      if (picture) out.pictures.push(picture);
+    }
+  }
+}
+
+function parseFlacPicture(data: Buffer): Picture | null {
+  if (data.length < 32) return null;
+  const type = data.readUInt32BE(0);
+  const mimeLength = data.readUInt32BE(4);
+  const mimeType = data.toString("latin1", 8, 8 + mimeLength);
+  let offset = 8 + mimeLength;
+  offset += 4 + data.readUInt32BE(offset); // Description
+  offset += 16; // Width, height, depth, colours
+  const length = data.readUInt32BE(offset);
+  if (mimeType === "-->") return null;
+  return { mimeType: normalizeImageMime(mimeType || "image/jpeg"), type, data: data.subarray(offset + 4, offset + 4 + length) };
+}
+
+// ---------------------------------------------------------------------------
+// Ogg (Vorbis and Opus)
+
+async function parseOgg(readAt: ReadAt, size: number, out: RawMetadata): Promise<void> {
+  // Reassemble the first two packets: the identification and comment headers
+  const packets: Buffer[] = [];
+  let current: Buffer[] = [];
+  let serial: number | undefined;
+  let offset = 0;
+  let total = 0;
+
+  while (packets.length < 2 && offset < size && total < MAX_BLOCK_BYTES) {
+    const header = await readAt(offset, 27);
+    if (header.toString("latin1", 0, 4) !== "OggS") break;
+    const segments = await readAt(offset + 27, header[26]);
+    const pageSerial = header.readUInt32LE(14);
+    const bodyLength = segments.reduce((acc, n) => acc + n, 0);
+    const body = await readAt(offset + 27 + segments.length, bodyLength);
+    offset += 27 + segments.length + bodyLength;
+    total += bodyLength;
+
+    serial ??= pageSerial;
+    if (pageSerial !== serial) continue;
+
+    let position = 0;
+    for (const segment of segments) {
+      current.push(body.subarray(position, position + segment));
+      position += segment;
+      // A segment shorter than 255 bytes ends the packet
+      if (segment < 255) {
+        packets.push(Buffer.concat(current));
+        current = [];
+      }
+    }
+  }
+  if (packets.length < 2) return;
+
+  const [identification, comments] = packets;
+  let sampleRate: number | undefined;
+  let preSkip = 0;
+  if (identification.toString("latin1", 0, 7) === "\x01vorbis") {
+    sampleRate = identification.readUInt32LE(12);
+    if (comments.toString("latin1", 0, 7) === "\x03vorbis") parseVorbisComments(comments.subarray(7), out);
+  } else if (identification.toString("latin1", 0, 8) === "OpusHead") {
+    sampleRate = 48000; // Opus granule positions always count 48 kHz samples
+    preSkip = identification.readUInt16LE(10);
+    if (comments.toString("latin1", 0, 8) === "OpusTags") parseVorbisComments(comments.subarray(8), out);
+  }
+
+  // The last page's granule position is the stream length in samples
+  if (sampleRate) {
+    const tailStart = Math.max(0, size - OGG_TAIL_BYTES);
+    const tail = await readAt(tailStart, size - tailStart);
+    for (let i = tail.lastIndexOf("OggS"); i >= 0; i = tail.lastIndexOf("OggS", i - 1)) {
+      if (i + 27 > tail.length || tail.readUInt32LE(i + 14) !== serial) continue;
+      const granule = Number(tail.readBigInt64LE(i + 6));
+      if (granule > 0) out.duration_seconds = (granule - preSkip) / sampleRate;
+      break;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MP4
+
+const MP4_TEXT_ATOMS: Record<string, "title" | "artist" | "album"> = {
+  "\xa9nam": "title",
+  "\xa9ART": "artist",
+  "aART": "artist",
+  "\xa9alb": "album",
+};
+
+interface Atom {
+  type: string;
+  start: number; // Offset of the atom's content
+  end: number;
+}
+
+// List the atoms in data[start, end)
+function childAtoms(data: Buffer, start: number, end: number): Atom[] {
+  const atoms: Atom[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    let size = data.readUInt32BE(offset);
+    let headerLength = 8;
+    if (size === 1) {
+      size = Number(data.readBigUInt64BE(offset + 8));
+      headerLength = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerLength) break;
+    atoms.push({ type: data.toString("latin1", offset + 4, offset + 8), start: offset + headerLength, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return atoms;
+}
+
+async function parseMp4(readAt: ReadAt, size: number, out: RawMetadata): Promise<void> {
+  // Walk the top-level atoms by their headers to find moov, which may be at the end
+  let moov: Buffer | undefined;
+  for (let offset = 0; offset + 8 <= size;) {
+    const header = await readAt(offset, 16);
+    let atomSize = header.readUInt32BE(0);
+    if (atomSize === 1) atomSize = Number(header.readBigUInt64BE(8));
+    else if (atomSize === 0) atomSize = size - offset;
+    if (atomSize < 8) return;
+    if (header.toString("latin1", 4, 8) === "moov") {
+      moov = await readAt(offset, atomSize);
+      break;
+    }
+    offset += atomSize;
+  }
+  if (!moov) return;
+
+  const find = (atoms: Atom[], type: string) => atoms.find((atom) => atom.type === type);
+  const moovChildren = childAtoms(moov, 8, moov.length);
+
+  const mvhd = find(moovChildren, "mvhd");
+  if (mvhd) {
+    const version = moov[mvhd.start];
+    const timescale = moov.readUInt32BE(mvhd.start + (version === 1 ? 20 : 12));
+    const duration = version === 1
+      ? Number(moov.readBigUInt64BE(mvhd.start + 24))
+      : moov.readUInt32BE(mvhd.start + 16);
+    if (timescale > 0 && duration > 0) out.duration_seconds = duration / timescale;
+  }
+
+  const udta = find(moovChildren, "udta");
+  const meta = udta && find(childAtoms(moov, udta.start, udta.end), "meta");
+  if (!meta) return;
+  // meta is a full atom with 4 bytes of version and flags, except in some QuickTime files
+  const metaStart = moov.toString("latin1", meta.start + 4, meta.start + 8) === "hdlr" ? meta.start : meta.start + 4;
+  const ilst = find(childAtoms(moov, metaStart, meta.end), "ilst");
+  if (!ilst) return;
+
+  for (const item of childAtoms(moov, ilst.start, ilst.end)) {
+    const data = find(childAtoms(moov, item.start, item.end), "data");
+    if (!data) continue;
+    const dataType = moov.readUInt32BE(data.start) & 0xffffff;
+    const value = moov.subarray(data.start + 8, data.end);
+
+    if (MP4_TEXT_ATOMS[item.type]) {
+      setText(out, MP4_TEXT_ATOMS[item.type], value.toString("utf-8"));
+    } else if (item.type === "covr") {
+      out.pictures.push({ mimeType: dataType === 14 ? "image/png" : "image/jpeg", type: 3, data: Buffer.from(value) });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WAV
+
+const RIFF_INFO_FIELDS: Record<string, "title" | "artist" | "album"> = {
+  INAM: "title",
+  IART: "artist",
+  IPRD: "album",
+};
+
+async function parseWav(readAt: ReadAt, size: number, out: RawMetadata): Promise<void> {
+  let byteRate: number | undefined;
+  let dataSize: number | undefined;
+
+  for (let offset = 12; offset + 8 <= size;) {
+    const header = await readAt(offset, 8);
+    const id = header.toString("latin1", 0, 4);
+    const length = header.readUInt32LE(4);
+
+    if (id === "fmt ") {
+      byteRate = (await readAt(offset + 8, 16)).readUInt32LE(8);
+    } else if (id === "data") {
+      dataSize = Math.min(length, size - offset - 8);
+    } else if (id === "LIST") {
+      const list = await readAt(offset + 8, length);
+      if (list.toString("latin1", 0, 4) === "INFO") {
+        for (let i = 4; i + 8 <= list.length;) {
+          const fieldId = list.toString("latin1", i, i + 4);
+          const fieldLength = list.readUInt32LE(i + 4);
+          if (RIFF_INFO_FIELDS[fieldId]) {
+            setText(out, RIFF_INFO_FIELDS[fieldId], list.toString("utf-8", i + 8, i + 8 + fieldLength));
+          }
+          i += 8 + fieldLength + (fieldLength % 2);
+        }
+      }
+    } else if (id.toLowerCase() === "id3 ") {
+      parseId3v2(await readAt(offset + 8, length), out);
+    }
+    // Chunks are padded to an even length
+    offset += 8 + length + (length % 2);
+  }
+
+  if (byteRate && dataSize !== undefined) {
+    out.duration_seconds = dataSize / byteRate;
+  }
+}
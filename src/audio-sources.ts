@@ -0,0 +1,307 @@
+/**
+ * Expands directories, glob patterns and playlist files (M3U, M3U8 and PLS)
+ * into the audio files they refer to.
+ *
+ * Directories and globs are walked in sorted order, so the same source always
+ * gives the same tracks in the same order, even when cut off at a limit.
+ * Hidden files and directories are skipped. Playlists keep their own order.
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PLAYLIST_EXTENSIONS = [".m3u", ".m3u8", ".pls"];
+
+// Natural order, so "track 2" sorts before "track 10"
+const collator = new Intl.Collator("en", { numeric: true, sensitivity: "base" });
+
+/**
+ * A file found in a source. Playlists may give a title and artist.
+ */
+export interface SourceEntry {
+  filePath: string;
+  title?: string;
+  artist?: string;
+}
+
+/**
+ * The result of expanding a source.
+ */
+export interface ExpandedSource {
+  entries: SourceEntry[];
+  /** Whether more files matched than the limit allowed. */
+  truncated: boolean;
+  /** Playlist entries left out because they are missing, remote or not supported audio. */
+  skipped: string[];
+}
+
+/**
+ * Options for expanding a source.
+ */
+export interface ExpandOptions {
+  /** Supported audio extensions, including the dot. */
+  extensions: string[];
+  /** Maximum number of entries to return. */
+  limit: number;
+  /** Include subdirectories when the source is a directory. */
+  recursive?: boolean;
+}
+
+/**
+ * Whether a path names a playlist file, by its extension.
+ */
+export function isPlaylistFile(filePath: string): boolean {
+  return PLAYLIST_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Resolves a user-supplied path, expanding a leading `~` to the home directory.
+ */
+export function resolveUserPath(filePath: string): string {
+  if (filePath === "~" || filePath.startsWith("~/")) {
+    return path.join(os.homedir(), filePath.slice(1));
+  }
+  return path.resolve(filePath);
+}
+
+/**
+ * Expands a directory, glob pattern or playlist file into audio files.
+ * Throws if the source doesn't exist or contains no supported audio.
+ */
+export async function expandAudioSource(source: string, options: ExpandOptions): Promise<ExpandedSource> {
+  const resolved = resolveUserPath(source);
+  const isSupported = (filePath: string) => options.extensions.includes(path.extname(filePath).toLowerCase());
+  let result: ExpandedSource;
+
+  // A path that exists is taken literally even if it looks like a glob, e.g.
+  // "Album [2020]"
+  const stats = await fs.stat(resolved).catch(() => null);
+  if (!stats && /[*?[{]/.test(source)) {
+    const files = await matchGlob(resolved, isSupported, options.limit + 1);
+    result = { entries: files.slice(0, options.limit).map((filePath) => ({ filePath })), truncated: files.length > options.limit, skipped: [] };
+  } else if (!stats) {
+    throw new Error(`File not found: ${resolved}`);
+  } else if (stats.isDirectory()) {
+    const files = await walkDirectory(resolved, options.recursive ?? false, isSupported, options.limit + 1);
+    result = { entries: files.slice(0, options.limit).map((filePath) => ({ filePath })), truncated: files.length > options.limit, skipped: [] };
+  } else if (isPlaylistFile(resolved)) {
+    const entries: SourceEntry[] = [];
+    const skipped: string[] = [];
+    for (const entry of await readPlaylistFile(resolved)) {
+      if (!path.isAbsolute(entry.filePath) || !isSupported(entry.filePath) || !(await isFile(entry.filePath))) {
+        skipped.push(entry.filePath);
+      } else {
+        entries.push(entry);
+      }
+    }
+    result = { entries: entries.slice(0, options.limit), truncated: entries.length > options.limit, skipped };
+  } else {
+    throw new Error(`Not a directory, glob pattern or playlist file: ${resolved}`);
+  }
+
+  if (result.entries.length === 0) {
+    throw new Error(`No supported audio files found in ${source} (supported: ${options.extensions.join(", ")})`);
+  }
+  return result;
+}
+
+/**
+ * Reads the entries of an M3U, M3U8 or PLS playlist. Relative paths are
+ * resolved against the playlist's directory; remote URLs are returned as they
+ * are.
+ */
+export async function readPlaylistFile(filePath: string): Promise<SourceEntry[]> {
+  const contents = (await fs.readFile(filePath, "utf-8")).replace(/^\uFEFF/, "");
+  const baseDir = path.dirname(filePath);
+  return path.extname(filePath).toLowerCase() === ".pls"
+    ? parsePlsPlaylist(contents, baseDir)
+    : parseM3u(contents, baseDir);
+}
+
+/**
+ * Parses an M3U or M3U8 playlist. `#EXTINF` lines give the title of the entry
+ * that follows, as `Artist - Title` or just a title. When an `#EXTART` line
+ * gives the artist, even an empty one, the title isn't split.
+ */
+export function parseM3u(text: string, baseDir: string): SourceEntry[] {
+  const entries: SourceEntry[] = [];
+  let displayTitle: string | undefined;
+  let artist: string | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith("#")) {
+      const extinf = /^#EXTINF:[^,]*,(.*)$/i.exec(line);
+      if (extinf) displayTitle = extinf[1];
+      const extart = /^#EXTART:(.*)$/i.exec(line);
+      if (extart) artist = extart[1].trim();
+      continue;
+    }
+    const info = artist === undefined ? parseDisplayTitle(displayTitle ?? "") : splitKnownArtist(displayTitle ?? "", artist);
+    entries.push({ filePath: resolveEntry(line, baseDir), ...info });
+    displayTitle = undefined;
+    artist = undefined;
+  }
+  return entries;
+}
+
+/**
+ * Parses a PLS playlist, in the order of its `FileN` numbers.
+ */
+export function parsePlsPlaylist(text: string, baseDir: string): SourceEntry[] {
+  const files = new Map<number, string>();
+  const titles = new Map<number, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(File|Title)(\d+)\s*=\s*(.*?)\s*$/i.exec(line);
+    if (!match) continue;
+    (match[1].toLowerCase() === "file" ? files : titles).set(Number(match[2]), match[3]);
+  }
+
+  return [...files.keys()]
+    .sort((a, b) => a - b)
+    .map((n) => ({ filePath: resolveEntry(files.get(n)!, baseDir), ...parseDisplayTitle(titles.get(n) ?? "") }));
+}
+
+function parseDisplayTitle(text: string): Omit<SourceEntry, "filePath"> {
+  const trimmed = text.trim();
+  const separator = trimmed.indexOf(" - ");
+  if (separator > 0) {
+    return { artist: trimmed.slice(0, separator).trim(), title: trimmed.slice(separator + 3).trim() };
+  }
+  return trimmed ? { title: trimmed } : {};
+}
+
+// Takes the artist as given, and drops it from the front of the display title
+function splitKnownArtist(text: string, artist: string): Omit<SourceEntry, "filePath"> {
+  const trimmed = text.trim();
+  const title = artist && trimmed.startsWith(`${artist} - `) ? trimmed.slice(artist.length + 3).trim() : trimmed;
+  return { ...(artist ? { artist } : {}), ...(title ? { title } : {}) };
+}
+
+function resolveEntry(entry: string, baseDir: string): string {
+  if (/^file:\/\//i.test(entry)) return fileURLToPath(entry);
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(entry)) return entry; // Remote
+  return path.resolve(baseDir, entry);
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Directory entries in sorted order, without hidden ones. Symlinks are
+// followed for files but not for directories, to avoid loops.
+async function listDirectory(dir: string): Promise<{ name: string; directory: boolean }[]> {
+  const dirents = await fs.readdir(dir, { withFileTypes: true });
+  const entries = [];
+  for (const dirent of dirents) {
+    if (dirent.name.startsWith(".")) continue;
+    if (dirent.isDirectory()) {
+      entries.push({ name: dirent.name, directory: true });
+    } else if (dirent.isFile() || (dirent.isSymbolicLink() && (await isFile(path.join(dir, dirent.name))))) {
+      entries.push({ name: dirent.name, directory: false });
+    }
+  }
+  return entries.sort((a, b) => collator.compare(a.name, b.name) || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+async function walkDirectory(dir: string, recursive: boolean, include: (filePath: string) => boolean, limit: number, found: string[] = []): Promise<string[]> {
+  for (const entry of await listDirectory(dir)) {
+    if (found.length >= limit) break;
+    const entryPath = path.join(dir, entry.name);
+    if (entry.directory) {
+      if (recursive) await walkDirectory(entryPath, recursive, include, limit, found);
+    } else if (include(entryPath)) {
+      found.push(entryPath);
+    }
+  }
+  return found;
+}
+
+/**
+ * Matches an absolute glob pattern. Supports `*`, `?`, `[...]`, `{a,b}` and
+ * `**` for any number of directories.
+ */
+async function matchGlob(pattern: string, include: (filePath: string) => boolean, limit: number): Promise<string[]> {
+  const segments = pattern.split(path.sep).filter(Boolean);
+  const firstMagic = segments.findIndex((segment) => /[*?[{]/.test(segment));
+  const baseDir = path.join(path.parse(pattern).root, ...segments.slice(0, firstMagic));
+  const found: string[] = [];
+  try {
+    await matchSegments(baseDir, segments.slice(firstMagic), include, limit, found);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  return found;
+}
+
+async function matchSegments(dir: string, segments: string[], include: (filePath: string) => boolean, limit: number, found: string[]): Promise<void> {
+  const [segment, ...rest] = segments;
+  if (segment === "**") {
+    // Match here with no directories consumed, then in each subdirectory. A
+    // trailing ** matches every file below.
+    if (rest.length > 0) await matchSegments(dir, rest, include, limit, found);
+    for (const entry of await listDirectory(dir)) {
+      if (found.length >= limit) return;
+      const entryPath = path.join(dir, entry.name);
+      if (entry.directory) {
+        await matchSegments(entryPath, segments, include, limit, found);
+      } else if (rest.length === 0 && include(entryPath) && !found.includes(entryPath)) {
+        found.push(entryPath);
+      }
+    }
+    return;
+  }
+
+  const regex = segmentToRegex(segment);
+  for (const entry of await listDirectory(dir)) {
+    if (found.length >= limit) return;
+    if (!regex.test(entry.name)) continue;
+    const entryPath = path.join(dir, entry.name);
+    if (rest.length > 0) {
+      if (entry.directory) await matchSegments(entryPath, rest, include, limit, found);
+    } else if (!entry.directory && include(entryPath) && !found.includes(entryPath)) {
+      found.push(entryPath);
+    }
+  }
+}
+
+function segmentToRegex(segment: string): RegExp {
+  let source = "";
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === "*") source += "[^/]*";
+    else if (char === "?") source += "[^/]";
+    else if (char === "[") {
+      const end = segment.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const set = segment.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${set}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      const end = segment.indexOf("}", i + 1);
+      if (end === -1) {
+        source += "\\{";
+      } else {
+        source += `(?:${segment.slice(i + 1, end).split(",").map(escapeRegex).join("|")})`;
+        i = end;
+      }
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
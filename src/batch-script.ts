@@ -0,0 +1,160 @@
+/**
+ * Helpers for batch speech generation: reading script rows from CSV or JSON
+ * files and running work with bounded concurrency.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// CSV columns that are collected into a row's voice settings
+const NUMERIC_SETTINGS = ["stability", "similarity_boost", "style", "speed"];
+const BOOLEAN_SETTINGS = ["use_speaker_boost"];
+
+/**
+ * Reads the rows of a batch script.
+ *
+ * JSON files hold an array of row objects, or an object with a `rows` array.
+ * CSV files need a header row with `id` and `text` columns, and may add
+ * `voice_id`, a `settings` column of JSON, or individual voice setting
+ * columns such as `stability` and `speed`. Empty cells are ignored.
+ *
+ * Rows are returned unvalidated, for the caller to check.
+ */
+export async function readBatchFile(filePath: string): Promise<unknown[]> {
+  const contents = (await fs.readFile(filePath, "utf-8")).replace(/^\uFEFF/, "");
+  const ext = path.extname(filePath).toLowerCase();
+
+  if (ext === ".json") {
+    const parsed = JSON.parse(contents);
+    const rows = Array.isArray(parsed) ? parsed : parsed?.rows;
+    if (!Array.isArray(rows)) {
+      throw new Error("JSON batch files must contain an array of rows or an object with a rows array");
+    }
+    return rows;
+  }
+  if (ext === ".csv") {
+    return rowsFromCsv(parseCsv(contents));
+  }
+  throw new Error(`Unsupported batch file type: ${ext || "(none)"}. Use .csv or .json`);
+}
+
+/**
+ * Parses CSV text into records of fields. Handles quoted fields with embedded
+ * commas, quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error("Unterminated quoted field in CSV");
+  }
+  if (field !== "" || record.length > 0) endRecord();
+
+  return records;
+}
+
+function rowsFromCsv(records: string[][]): Record<string, unknown>[] {
+  const [header, ...body] = records;
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  for (const required of ["id", "text"]) {
+    if (!columns.includes(required)) {
+      throw new Error(`CSV batch files need an "${required}" column`);
+    }
+  }
+
+  return body.map((record, line) => {
+    const row: Record<string, unknown> = {};
+    const settings: Record<string, unknown> = {};
+
+    columns.forEach((column, i) => {
+      const value = record[i]?.trim() ?? "";
+      if (value === "") return;
+
+      if (NUMERIC_SETTINGS.includes(column)) {
+        settings[column] = Number(value);
+      } else if (BOOLEAN_SETTINGS.includes(column)) {
+        settings[column] = /^(true|yes|1)$/i.test(value);
+      } else if (column === "settings") {
+        try {
+          Object.assign(settings, JSON.parse(value));
+        } catch {
+          // Line numbers are 1-based and count the header
+          throw new Error(`Invalid settings JSON on line ${line + 2}`);
+        }
+      } else {
+        row[column] = column === "text" ? record[i] : value;
+      }
+    });
+
+    if (Object.keys(settings).length > 0) row.settings = settings;
+    return row;
+  });
+}
+
+/**
+ * Runs `fn` over the items with at most `limit` calls in flight, and returns
+ * the results in item order. `fn` should handle its own errors: the first
+ * rejection rejects the whole run.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Turns a row id into a safe file name stem, e.g. "menu/start game" becomes
+ * "menu_start_game".
+ */
+export function fileStemFromId(id: string): string {
+  const stem = id.trim().replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^[._]+/, "").slice(0, 100);
+  return stem || "row";
+}
@@ -37,7 +37,7 @@ enum NetworkState {
   NETWORK_NO_SOURCE = 3,
 }
 
-function formatTime(seconds: number) {
+export function formatTime(seconds: number) {
   const hrs = Math.floor(seconds / 3600)
   const mins = Math.floor((seconds % 3600) / 60)
   const secs = Math.floor(seconds % 60)
@@ -367,7 +367,7 @@ export const AudioPlayerDuration = ({
     >
       {player.duration !== null &&
       player.duration !== undefined &&
-      !Number.isNaN(player.duration)
+      Number.isFinite(player.duration)
         ? formatTime(player.duration)
         : "--:--"}
     </span>
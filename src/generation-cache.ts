@@ -0,0 +1,233 @@
+/**
+ * Content-addressed cache of generated audio, so repeating an identical
+ * request reuses the earlier result instead of billing the account again.
+ *
+ * Entries are keyed by a hash of the normalized request parameters. The cache
+ * keeps its own copy of each file in a hidden directory of the output
+ * directory, and evicts the least recently used entries once it grows past
+ * its size limit. It also remembers where each generation was saved, so the
+ * earlier output file can be reused while it still exists.
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { GenerationType } from "./library.js";
+
+const CACHE_DIRNAME = ".elevenlabs-cache";
+const INDEX_FILENAME = "index.json";
+const DEFAULT_MAX_MB = 500;
+
+// Pending index updates per cache directory. Updates run one at a time, so
+// concurrent generations don't overwrite each other's entries.
+const indexQueues = new Map<string, Promise<unknown>>();
+let tempFileCounter = 0;
+
+/**
+ * A cached generation.
+ */
+export interface CacheEntry<M = Record<string, unknown>> {
+  key: string;
+  type: GenerationType;
+  /** File name of the cached audio, inside the cache directory. */
+  file: string;
+  size: number;
+  /** Where the generation was last saved, outside the cache. */
+  output_path?: string;
+  /** Title the output file was tagged with, so it's only reused under that title. */
+  output_title?: string;
+  created_at: string; // ISO 8601
+  last_used_at: string; // ISO 8601
+  /** Details needed to rebuild the tool result, e.g. chapters or alignment. */
+  metadata: M;
+}
+
+/**
+ * Returns the cache directory for an output directory.
+ */
+export function getCacheDir(outputDir: string): string {
+  return path.join(outputDir, CACHE_DIRNAME);
+}
+
+/**
+ * Reads the cache size limit from ELEVENLABS_CACHE_MAX_MB (default: 500).
+ * A limit of 0 disables the cache.
+ */
+export function getCacheMaxBytes(): number {
+  const value = process.env.ELEVENLABS_CACHE_MAX_MB;
+  const parsed = value?.trim() ? Number(value) : DEFAULT_MAX_MB;
+  const megabytes = Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_MAX_MB;
+  return megabytes * 1024 * 1024;
+}
+
+/**
+ * Hashes the parameters of a generation request into a cache key.
+ *
+ * Parameters are normalized first, so that key order, unset values, Unicode
+ * composition and surrounding whitespace don't change the key.
+ */
+export function getCacheKey(type: GenerationType, parameters: Record<string, unknown>): string {
+  return createHash("sha256")
+    .update(JSON.stringify(normalize({ type, ...parameters })))
+    .digest("hex");
+}
+
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.normalize("NFC").replace(/\r\n?/g, "\n").trim();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined && v !== null)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, normalize(v)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Looks up a cached generation whose earlier output file still exists and
+ * carries the given title.
+ *
+ * Returns null on a miss, when the output file has been moved or deleted, and
+ * when it was saved under another title.
+ */
+export async function findCachedOutput<M>(outputDir: string, key: string, title: string): Promise<CacheEntry<M> | null> {
+  return updateIndex(outputDir, async (index) => {
+    const entry = index.find((e) => e.key === key);
+    if (!entry?.output_path || entry.output_title !== title || !(await isFile(entry.output_path))) {
+      return { index: null, result: null };
+    }
+
+    entry.last_used_at = new Date().toISOString();
+    return { index, result: entry as CacheEntry<M> };
+  });
+}
+
+/**
+ * Looks up a cached generation and copies its audio to `destination`, which
+ * becomes the output file reused by later lookups with the same title.
+ *
+ * Returns null on a miss, including when the cached file has gone missing.
+ */
+export async function restoreFromCache<M>(outputDir: string, key: string, destination: string, title: string): Promise<CacheEntry<M> | null> {
+  return updateIndex(outputDir, async (index) => {
+    const entry = index.find((e) => e.key === key);
+    if (!entry) return { index: null, result: null };
+
+    try {
+      await fs.copyFile(path.join(getCacheDir(outputDir), entry.file), destination);
+    } catch {
+      return { index: index.filter((e) => e !== entry), result: null };
+    }
+
+    entry.last_used_at = new Date().toISOString();
+    entry.output_path = path.resolve(destination);
+    entry.output_title = title;
+    return { index, result: entry as CacheEntry<M> };
+  });
+}
+
+/**
+ * Copies a newly generated file into the cache, replacing any entry with the
+ * same key, and remembers `sourcePath` as its output file, tagged with
+ * `title`. Then evicts the least recently used entries until the cache fits
+ * in `maxBytes`.
+ */
+export async function storeInCache(
+  outputDir: string,
+  key: string,
+  type: GenerationType,
+  sourcePath: string,
+  title: string,
+  metadata: Record<string, unknown>,
+  maxBytes: number,
+): Promise<void> {
+  const cacheDir = getCacheDir(outputDir);
+  await fs.mkdir(cacheDir, { recursive: true });
+
+  const file = `${key}${path.extname(sourcePath)}`;
+  await fs.copyFile(sourcePath, path.join(cacheDir, file));
+  const { size } = await fs.stat(path.join(cacheDir, file));
+
+  await updateIndex(outputDir, async (entries) => {
+    const now = new Date().toISOString();
+    const index = entries.filter((e) => e.key !== key);
+    index.push({
+      key,
+      type,
+      file,
+      size,
+      output_path: path.resolve(sourcePath),
+      output_title: title,
+      created_at: now,
+      last_used_at: now,
+      metadata,
+    });
+
+    // Oldest use first
+    index.sort((a, b) => a.last_used_at.localeCompare(b.last_used_at));
+    let total = index.reduce((acc, e) => acc + e.size, 0);
+    while (total > maxBytes && index.length > 0) {
+      const evicted = index.shift()!;
+      total -= evicted.size;
+      await fs.rm(path.join(cacheDir, evicted.file), { force: true });
+    }
+    return { index, result: undefined };
+  });
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Reads the index, applies an update and writes the new index, if any, after
+// any earlier updates to the same cache have finished
+function updateIndex<T>(outputDir: string, update: (index: CacheEntry[]) => Promise<{ index: CacheEntry[] | null; result: T }>): Promise<T> {
+  const cacheDir = getCacheDir(outputDir);
+  const run = (indexQueues.get(cacheDir) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const { index, result } = await update(await readIndex(outputDir));
+      if (index) await writeIndex(outputDir, index);
+      return result;
+    });
+  indexQueues.set(cacheDir, run);
+  const cleanUp = () => {
+    if (indexQueues.get(cacheDir) === run) indexQueues.delete(cacheDir);
+  };
+  run.then(cleanUp, cleanUp);
+  return run;
+}
+
+async function readIndex(outputDir: string): Promise<CacheEntry[]> {
+  try {
+    const contents = await fs.readFile(path.join(getCacheDir(outputDir), INDEX_FILENAME), "utf-8");
+    const parsed = JSON.parse(contents);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Write through a temporary file so an interrupted write never corrupts the
+// index. The name is unique, so other processes sharing the cache don't
+// write to the same temporary file.
+async function writeIndex(outputDir: string, index: CacheEntry[]): Promise<void> {
+  const cacheDir = getCacheDir(outputDir);
+  await fs.mkdir(cacheDir, { recursive: true });
+  const indexPath = path.join(cacheDir, INDEX_FILENAME);
+  const tmpPath = `${indexPath}.${process.pid}.${++tempFileCounter}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(index, null, 2), "utf-8");
+  await fs.rename(tmpPath, indexPath);
+}
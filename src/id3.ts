@@ -0,0 +1,108 @@
+/**
+ * ID3v2.4 tag writing, so generated MP3s stay self-describing outside the
+ * player, e.g. in DAWs and asset managers.
+ *
+ * Tags are placed at the start of the file, replacing any existing ID3v2 tag.
+ * All text is UTF-8 encoded.
+ */
+
+import fs from "node:fs/promises";
+
+const HEADER_SIZE = 10;
+const ENCODING_UTF8 = 3;
+const FLAG_FOOTER = 0x10;
+let tempFileCounter = 0;
+
+/**
+ * Metadata written into a generated file.
+ */
+export interface AudioTags {
+  title: string;
+  artist: string;
+  /** Written as a comment, e.g. the prompt or spoken text. */
+  comment?: string;
+  /** Creation date, written as the recording time. */
+  date: Date;
+  /** User-defined text fields (TXXX), e.g. { "ElevenLabs Voice ID": "..." }. */
+  custom?: Record<string, string | undefined>;
+}
+
+/**
+ * Builds an ID3v2.4 tag from the given metadata.
+ */
+export function buildId3Tag(tags: AudioTags): Uint8Array {
+  const frames: Buffer[] = [
+    textFrame("TIT2", tags.title),
+    textFrame("TPE1", tags.artist),
+    textFrame("TDRC", tags.date.toISOString().slice(0, 19)),
+    textFrame("TSSE", "ElevenLabs Player"),
+  ];
+  if (tags.comment) {
+    // Language, then an empty short description before the text
+    frames.push(frame("COMM", Buffer.concat([Buffer.from([ENCODING_UTF8]), Buffer.from("eng\0", "latin1"), Buffer.from(tags.comment, "utf-8")])));
+  }
+  for (const [description, value] of Object.entries(tags.custom ?? {})) {
+    if (value === undefined) continue;
+    frames.push(frame("TXXX", Buffer.concat([Buffer.from([ENCODING_UTF8]), Buffer.from(`${description}\0${value}`, "utf-8")])));
+  }
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write("ID3", 0, "latin1");
+  header[3] = 4; // Version 2.4.0
+  header.writeUInt32BE(toSyncsafe(body.length), 6);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Returns the audio without its leading ID3v2 tag, if it has one.
+ */
+export function stripId3Tag(audio: Uint8Array): Uint8Array {
+  const bytes = Buffer.from(audio.buffer, audio.byteOffset, audio.byteLength);
+  if (bytes.length < HEADER_SIZE || bytes.toString("latin1", 0, 3) !== "ID3") {
+    return audio;
+  }
+  const size = HEADER_SIZE + fromSyncsafe(bytes.readUInt32BE(6)) + (bytes[5] & FLAG_FOOTER ? HEADER_SIZE : 0);
+  return audio.subarray(Math.min(size, audio.length));
+}
+
+/**
+ * Writes an ID3v2 tag into an MP3 file, replacing any tag it already has.
+ * The file is rewritten through a temporary file, so it's never left half
+ * written. Each write uses its own temporary file, so concurrent writes don't
+ * clash.
+ */
+export async function writeId3Tag(filePath: string, tags: AudioTags): Promise<void> {
+  const audio = stripId3Tag(await fs.readFile(filePath));
+  const tmpPath = `${filePath}.${process.pid}.${++tempFileCounter}.tmp`;
+  try {
+    await fs.writeFile(tmpPath, Buffer.concat([buildId3Tag(tags), audio]));
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+function textFrame(id: string, text: string): Buffer {
+  return frame(id, Buffer.concat([Buffer.from([ENCODING_UTF8]), Buffer.from(text, "utf-8")]));
+}
+
+function frame(id: string, content: Buffer): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write(id, 0, "latin1");
+  header.writeUInt32BE(toSyncsafe(content.length), 4);
+  return Buffer.concat([header, content]);
+}
+
+// ID3v2.4 sizes use 7 bits per byte, so they never contain an MPEG sync pattern
+function toSyncsafe(size: number): number {
+  if (size >= 1 << 28) {
+    throw new Error("ID3 tag is too large");
+  }
+  return (size & 0x7f) | ((size & 0x3f80) << 1) | ((size & 0x1fc000) << 2) | ((size & 0xfe00000) << 3);
+}
+
+function fromSyncsafe(value: number): number {
+  return (value & 0x7f) | ((value >> 1) & 0x3f80) | ((value >> 2) & 0x1fc000) | ((value >> 3) & 0xfe00000);
+}
@@ -0,0 +1,125 @@
+/**
+ * Persistent index of generated audio, stored as JSON Lines in the output
+ * directory so every file can be traced back to the request that produced it.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const LIBRARY_FILENAME = ".elevenlabs-library.jsonl";
+
+export type GenerationType = "tts" | "sfx" | "music" | "dialogue" | "voice_preview" | "sts" | "isolation";
+
+/**
+ * A single generation recorded in the library.
+ */
+export interface LibraryEntry {
+  id: string;
+  type: GenerationType;
+  title: string;
+  file_path: string;
+  created_at: string; // ISO 8601
+  duration_seconds: number | null;
+  /** The tool arguments, after defaults were applied. */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Filters for {@link searchLibrary}. All given filters must match.
+ */
+export interface LibraryFilters {
+  type?: GenerationType;
+  /** Case-insensitive text matched against the title, text, prompt and voice description. */
+  query?: string;
+  voice_id?: string;
+  /** ISO date or datetime; entries created before it are excluded. */
+  since?: string;
+  /** ISO date or datetime; entries created after it are excluded. */
+  until?: string;
+}
+
+/**
+ * Returns the path of the library index for an output directory.
+ */
+export function getLibraryPath(outputDir: string): string {
+  return path.join(outputDir, LIBRARY_FILENAME);
+}
+
+/**
+ * Appends an entry to the library index, creating it if needed.
+ */
+export async function appendLibraryEntry(outputDir: string, entry: LibraryEntry): Promise<void> {
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.appendFile(getLibraryPath(outputDir), `${JSON.stringify(entry)}\n`, "utf-8");
+}
+
+/**
+ * Reads all library entries, oldest first. Lines that fail to parse are
+ * skipped, so a partially written line never makes the library unreadable.
+ */
+export async function readLibrary(outputDir: string): Promise<LibraryEntry[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(getLibraryPath(outputDir), "utf-8");
+  } catch {
+    return [];
+  }
+
+  const entries: LibraryEntry[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LibraryEntry);
+    } catch {
+      console.error("[ElevenLabs Player] Skipping malformed library entry:", line.slice(0, 80));
+    }
+  }
+  return entries;
+}
+
+/**
+ * Filters library entries, newest first.
+ */
+export function searchLibrary(entries: LibraryEntry[], filters: LibraryFilters): LibraryEntry[] {
+  const since = filters.since ? Date.parse(filters.since) : undefined;
+  const until = filters.until ? endOfDay(filters.until) : undefined;
+  const query = filters.query?.toLowerCase();
+
+  return entries
+    .filter((entry) => {
+      if (filters.type && entry.type !== filters.type) return false;
+      if (filters.voice_id && !usesVoice(entry, filters.voice_id)) return false;
+
+      const created = Date.parse(entry.created_at);
+      if (since !== undefined && created < since) return false;
+      if (until !== undefined && created > until) return false;
+
+      if (query) {
+        const haystack = [
+          entry.title,
+          entry.parameters.text,
+          entry.parameters.prompt,
+          entry.parameters.description,
+          JSON.stringify(entry.parameters.turns ?? ""),
+        ]
+          .filter((value) => typeof value === "string")
+          .join("\n")
+          .toLowerCase();
+        if (!haystack.includes(query)) return false;
+      }
+      return true;
+    })
+    .reverse();
+}
+
+function usesVoice(entry: LibraryEntry, voiceId: string): boolean {
+  if (entry.parameters.voice_id === voiceId) return true;
+  const turns = entry.parameters.turns;
+  return Array.isArray(turns) && turns.some((turn) => turn?.voice_id === voiceId);
+}
+
+// A bare date like 2026-01-31 should include that whole day
+function endOfDay(value: string): number {
+  const timestamp = Date.parse(value);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? timestamp + 24 * 60 * 60 * 1000 - 1 : timestamp;
+}
@@ -6,7 +6,7 @@ import { useApp } from "@modelcontextprotocol/ext-apps/react";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { StrictMode, createContext, useCallback, useContext, useEffect, useState, useRef } from "react";
 import { createRoot } from "react-dom/client";
-import { Loader2, PauseIcon, PlayIcon, Repeat, Repeat1 } from "lucide-react";
+import { ListPlus, Loader2, PauseIcon, PlayIcon, Repeat, Repeat1 } from "lucide-react";
 
 import {
   AudioPlayerDuration,
@@ -14,12 +14,16 @@ import {
   AudioPlayerProvider,
   AudioPlayerSpeedCycle,
   AudioPlayerTime,
+  formatTime,
   useAudioPlayer,
+  useAudioPlayerTime,
 } from "@/components/ui/audio-player";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
 const IMPLEMENTATION = { name: "ElevenLabs Player", version: "1.0.0" };
+// Most tracks save_playlist accepts
+const MAX_PLAYLIST_TRACKS = 1000;
 
 const log = {
   info: console.log.bind(console, "[ElevenLabs Player]"),
@@ -27,10 +31,30 @@ const log = {
   error: console.error.bind(console, "[ElevenLabs Player]"),
 };
 
+interface Chapter {
+  title: string;
+  start: number; // Offset in seconds
+}
+
+interface TranscriptWord {
+  text: string;
+  start: number; // Seconds
+  end: number;
+  speaker?: string;
+}
+
 interface TrackData {
   title: string;
   artist?: string;
-  filePath: string; // For lazy loading
+  album?: string;
+  artwork?: string; // Embedded cover art as a data URL
+  duration?: number; // Seconds, when known before loading
+  filePath?: string; // For lazy loading
+  url?: string; // Remote source (e.g. voice previews), loaded through the server
+  streamUrl?: string; // Local audio server URL for speech that is still being generated
+  chapters?: Chapter[];
+  transcript?: TranscriptWord[];
+  loop?: boolean; // Seamless loops repeat on their own, regardless of repeat mode
 }
 
 interface Track {
@@ -41,9 +65,17 @@ interface Track {
 
 interface ServerTrackMetadata {
   id: string;
-  filePath: string;
+  filePath?: string;
+  url?: string;
+  streamUrl?: string;
   title: string;
   artist?: string;
+  album?: string;
+  artwork?: string;
+  duration?: number;
+  chapters?: Chapter[];
+  transcript?: TranscriptWord[];
+  loop?: boolean;
 }
 
 interface PlayAudioStructuredContent {
@@ -54,6 +86,12 @@ interface LoadAudioStructuredContent {
   dataUrl: string;
 }
 
+interface SavePlaylistStructuredContent {
+  name: string;
+  path: string;
+  track_count: number;
+}
+
 type RepeatMode = "none" | "playlist" | "track";
 
 // Context for track loading functionality
@@ -72,15 +110,21 @@ function useTrackLoader() {
   return ctx;
 }
 
+function toTrack(t: ServerTrackMetadata): Track {
+  return {
+    id: t.id,
+    // Streaming speech plays straight from the server as it arrives; other
+    // audio is not loaded yet - will be lazy loaded on play
+    src: t.streamUrl ?? null,
+    data: { title: t.title, artist: t.artist, album: t.album, artwork: t.artwork, duration: t.duration, filePath: t.filePath, url: t.url, streamUrl: t.streamUrl, chapters: t.chapters, transcript: t.transcript, loop: t.loop },
+  };
+}
+
 function parseTracksFromResult(callToolResult: CallToolResult): Track[] {
   // Prefer structuredContent (v0.4.0+) for type-safe access
   const structured = callToolResult.structuredContent as PlayAudioStructuredContent | undefined;
   if (structured?.tracks) {
-    return structured.tracks.map((t) => ({
-      id: t.id,
-      src: null, // Audio not loaded yet - will be lazy loaded on play
-      data: { title: t.title, artist: t.artist, filePath: t.filePath },
-    }));
+    return structured.tracks.map(toTrack);
   }
 
   // Fallback to parsing text content (backwards compatibility)
@@ -88,11 +132,7 @@ function parseTracksFromResult(callToolResult: CallToolResult): Track[] {
   if (textContent && "text" in textContent) {
     try {
       const serverTracks: ServerTrackMetadata[] = JSON.parse(textContent.text);
-      return serverTracks.map((t) => ({
-        id: t.id,
-        src: null,
-        data: { title: t.title, artist: t.artist, filePath: t.filePath },
-      }));
+      return serverTracks.map(toTrack);
     } catch {
       // Not JSON - likely a summary text, ignore
     }
@@ -209,6 +249,11 @@ function TrackListItem({ track, trackNumber }: { track: Track; trackNumber: numb
               <span className="text-muted-foreground text-xs truncate">{track.data.artist}</span>
             )}
           </div>
+          {track.data.duration !== undefined && (
+            <span className="ml-auto shrink-0 text-muted-foreground text-xs tabular-nums">
+              {formatTime(track.data.duration)}
+            </span>
+          )}
         </div>
       </Button>
     </div>
@@ -248,6 +293,101 @@ function RepeatButton({ mode, onToggle }: RepeatButtonProps) {
   );
 }
 
+function formatChapterTime(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs < 10 ? `0${secs}` : secs}`;
+}
+
+// Seek within a track, loading and starting it first if it isn't the active one
+function useTrackSeek(track: Track) {
+  const player = useAudioPlayer<TrackData>();
+  const { loadAndPlayTrack } = useTrackLoader();
+
+  return useCallback(async (time: number) => {
+    if (!player.isItemActive(track.id)) {
+      await loadAndPlayTrack(track);
+    }
+    player.seek(time);
+  }, [player, track, loadAndPlayTrack]);
+}
+
+function ChapterList({ track }: { track: Track }) {
+  const player = useAudioPlayer<TrackData>();
+  const time = useAudioPlayerTime();
+  const seek = useTrackSeek(track);
+  const chapters = track.data.chapters ?? [];
+
+  // The current chapter is the last one that started before the playhead
+  const currentIndex = player.isItemActive(track.id)
+    ? chapters.reduce((found, chapter, i) => (chapter.start <= time ? i : found), -1)
+    : -1;
+
+  return (
+    <div className="mt-3 max-h-32 overflow-y-auto space-y-0.5">
+      {chapters.map((chapter, i) => (
+        <button
+          key={`${chapter.start}-${i}`}
+          type="button"
+          onClick={() => seek(chapter.start)}
+          className={cn(
+            "flex w-full items-center gap-2 rounded px-2 py-1 text-left text-xs hover:bg-muted",
+            i === currentIndex ? "text-foreground bg-muted" : "text-muted-foreground"
+          )}
+        >
+          <span className="tabular-nums shrink-0">{formatChapterTime(chapter.start)}</span>
+          <span className="truncate">{chapter.title}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function TranscriptPanel({ track }: { track: Track }) {
+  const player = useAudioPlayer<TrackData>();
+  const time = useAudioPlayerTime();
+  const seek = useTrackSeek(track);
+  const activeWordRef = useRef<HTMLSpanElement>(null);
+  const words = track.data.transcript ?? [];
+
+  // Highlight the last word that started before the playhead
+  const currentIndex = player.isItemActive(track.id)
+    ? words.reduce((found, word, i) => (word.start <= time ? i : found), -1)
+    : -1;
+
+  // Keep the highlighted word in view while playing
+  useEffect(() => {
+    activeWordRef.current?.scrollIntoView({ block: "nearest" });
+  }, [currentIndex]);
+
+  return (
+    <div className="mt-3 max-h-40 overflow-y-auto rounded border p-2 text-sm leading-relaxed">
+      {words.map((word, i) => (
+        <span key={`${word.start}-${i}`}>
+          {word.speaker && word.speaker !== words[i - 1]?.speaker && (
+            <>
+              {i > 0 && <br />}
+              <span className="mr-1 text-xs font-medium text-muted-foreground">{word.speaker}:</span>
+            </>
+          )}
+          <span
+            ref={i === currentIndex ? activeWordRef : undefined}
+            onClick={() => seek(word.start)}
+            title={formatChapterTime(word.start)}
+            className={cn(
+              "cursor-pointer rounded px-0.5 hover:bg-muted",
+              i === currentIndex && "bg-primary text-primary-foreground hover:bg-primary",
+              i < currentIndex && "text-muted-foreground"
+            )}
+          >
+            {word.text}
+          </span>{" "}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 interface PlayerProps {
   tracks: Track[];
   repeatMode: RepeatMode;
@@ -280,15 +420,29 @@ function Player({ tracks, repeatMode, onRepeatToggle }: PlayerProps) {
   return (
     <div className="flex flex-1 items-center p-4">
       <div className="w-full">
-        <div className="mb-3">
-          <h3 className="text-sm font-medium truncate">
-            {currentTrack?.data?.title ?? "No track selected"}
-          </h3>
-          {currentTrack?.data?.artist && (
-            <p className="text-xs text-muted-foreground truncate">
-              {currentTrack.data.artist}
-            </p>
+        <div className="mb-3 flex items-center gap-3">
+          {currentTrack?.data?.artwork && (
+            <img
+              src={currentTrack.data.artwork}
+              alt=""
+              className="h-12 w-12 shrink-0 rounded-md object-cover"
+            />
           )}
+          <div className="min-w-0">
+            <h3 className="flex items-center gap-1.5 text-sm font-medium">
+              <span className="truncate">{currentTrack?.data?.title ?? "No track selected"}</span>
+              {currentTrack?.data?.loop && (
+                <span title="Seamless loop">
+                  <Repeat1 className="h-3.5 w-3.5 shrink-0 text-primary" />
+                </span>
+              )}
+            </h3>
+            {(currentTrack?.data?.artist || currentTrack?.data?.album) && (
+              <p className="text-xs text-muted-foreground truncate">
+                {[currentTrack.data.artist, currentTrack.data.album].filter(Boolean).join(" · ")}
+              </p>
+            )}
+          </div>
         </div>
         <div className="flex items-center gap-3">
           <Button
@@ -314,11 +468,131 @@ function Player({ tracks, repeatMode, onRepeatToggle }: PlayerProps) {
             <RepeatButton mode={repeatMode} onToggle={onRepeatToggle} />
           </div>
         </div>
+        {currentTrack?.data.chapters && currentTrack.data.chapters.length > 0 && (
+          <ChapterList track={currentTrack} />
+        )}
+        {currentTrack?.data.transcript && currentTrack.data.transcript.length > 0 && (
+          <TranscriptPanel track={currentTrack} />
+        )}
       </div>
     </div>
   );
 }
 
+interface SaveQueueBarProps {
+  app: App;
+  tracks: Track[];
+}
+
+function defaultPlaylistName() {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `Queue ${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}.${pad(now.getMinutes())}`;
+}
+
+// Saves the local files in the queue as a named playlist via save_playlist
+function SaveQueueBar({ app, tracks }: SaveQueueBarProps) {
+  const [name, setName] = useState<string | null>(null); // null while collapsed
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ message: string; isError?: boolean; canReplace?: boolean } | null>(null);
+
+  // Previews and other remote tracks have no file to save
+  const savableTracks = tracks.filter((t) => t.data.filePath);
+  if (savableTracks.length === 0) return null;
+
+  const save = async (overwrite: boolean) => {
+    if (!name?.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      const savedTracks = savableTracks.slice(0, MAX_PLAYLIST_TRACKS);
+      const result = await app.callServerTool({
+        name: "save_playlist",
+        arguments: {
+          name: name.trim(),
+          tracks: savedTracks.map((t) => ({ filePath: t.data.filePath, title: t.data.title, artist: t.data.artist })),
+          overwrite,
+        },
+      });
+
+      if (result.isError) {
+        const textContent = result.content?.find((c) => c.type === "text");
+        const message = textContent && "text" in textContent ? textContent.text : "Failed to save playlist";
+        setStatus({ message, isError: true, canReplace: message.includes("already exists") });
+        return;
+      }
+
+      const structured = result.structuredContent as SavePlaylistStructuredContent | undefined;
+      const left = savableTracks.length - savedTracks.length;
+      setStatus({
+        message: `Saved "${structured?.name ?? name.trim()}" with ${structured?.track_count ?? savedTracks.length} track(s)`
+          + (left > 0 ? `. Playlists hold up to ${MAX_PLAYLIST_TRACKS} tracks, so the last ${left} weren't saved` : ""),
+        isError: left > 0,
+      });
+      setName(null);
+    } catch (err) {
+      log.error("Error saving playlist:", err);
+      setStatus({ message: "Failed to save playlist", isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-t px-4 py-2 text-xs">
+      {name === null ? (
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => {
+              setName(defaultPlaylistName());
+              setStatus(null);
+            }}
+          >
+            <ListPlus className="h-3.5 w-3.5" />
+            Save queue
+          </Button>
+          {status && (
+            <span className={cn("truncate", status.isError ? "text-red-500" : "text-muted-foreground")}>{status.message}</span>
+          )}
+        </div>
+      ) : (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save(false);
+          }}
+        >
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setStatus(null);
+            }}
+            aria-label="Playlist name"
+            className="h-7 min-w-0 flex-1 rounded-md border bg-background px-2 text-xs"
+          />
+          <Button type="submit" size="sm" className="h-7 text-xs" disabled={isSaving || !name.trim()}>
+            {isSaving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Save"}
+          </Button>
+          {status?.canReplace && (
+            <Button type="button" variant="outline" size="sm" className="h-7 text-xs" disabled={isSaving} onClick={() => save(true)}>
+              Replace
+            </Button>
+          )}
+          <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setName(null)}>
+            Cancel
+          </Button>
+        </form>
+      )}
+      {name !== null && status?.isError && <p className="mt-1 text-red-500">{status.message}</p>}
+    </div>
+  );
+}
+
 interface AudioPlayerContentProps {
   app: App;
   tracks: Track[];
@@ -351,10 +625,10 @@ function AudioPlayerContent({ app, tracks, setTracks }: AudioPlayerContentProps)
     // Load the audio via server tool
     setLoadingTrackId(track.id);
     try {
-      log.info("Loading audio for track:", track.id, track.data.filePath);
+      log.info("Loading audio for track:", track.id, track.data.filePath ?? track.data.url);
       const result = await app.callServerTool({
         name: "load_audio",
-        arguments: { filePath: track.data.filePath },
+        arguments: track.data.filePath ? { filePath: track.data.filePath } : { url: track.data.url },
       });
 
       const structured = result.structuredContent as LoadAudioStructuredContent | undefined;
@@ -378,6 +652,48 @@ function AudioPlayerContent({ app, tracks, setTracks }: AudioPlayerContentProps)
     }
   }, [app, player, setTracks]);
 
+  // Hosts that block the local audio server can't stream; load the file
+  // through the server tool instead, which waits until generation finishes
+  useEffect(() => {
+    const audio = player.ref.current;
+    if (!audio) return;
+
+    const handleError = async () => {
+      const track = tracks.find((t) => t.data.streamUrl && t.src === audio.src);
+      if (!track?.data.filePath) return;
+
+      log.info("Stream unavailable, loading file instead:", track.id);
+      setLoadingTrackId(track.id);
+      try {
+        const result = await app.callServerTool({
+          name: "load_audio",
+          arguments: { filePath: track.data.filePath },
+        });
+
+        const structured = result.structuredContent as LoadAudioStructuredContent | undefined;
+        if (result.isError || !structured?.dataUrl) {
+          log.error("Failed to load audio:", result);
+          return;
+        }
+
+        const loadedSrc = structured.dataUrl;
+        setTracks((prev) =>
+          prev.map((t) => (t.id === track.id ? { ...t, src: loadedSrc } : t))
+        );
+        // The player item stays the same, so swap the source on the element itself
+        audio.src = loadedSrc;
+        audio.load();
+      } catch (err) {
+        log.error("Error loading audio:", err);
+      } finally {
+        setLoadingTrackId(null);
+      }
+    };
+
+    audio.addEventListener("error", handleError);
+    return () => audio.removeEventListener("error", handleError);
+  }, [app, tracks, player.ref, setTracks]);
+
   // Auto-select first track when tracks are first added (but don't load audio yet)
   useEffect(() => {
     if (tracks.length > 0 && !initializedRef.current) {
@@ -401,13 +717,14 @@ function AudioPlayerContent({ app, tracks, setTracks }: AudioPlayerContentProps)
     prevTracksLengthRef.current = tracks.length;
   }, [tracks, player]);
 
-  // Set audio loop property based on repeat mode
+  // Set audio loop property based on repeat mode, or the track itself being a loop
+  const activeTrackLoops = player.activeItem?.data?.loop ?? false;
   useEffect(() => {
     const audio = player.ref.current;
     if (audio) {
-      audio.loop = repeatMode === "track";
+      audio.loop = repeatMode === "track" || activeTrackLoops;
     }
-  }, [repeatMode, player.ref]);
+  }, [repeatMode, activeTrackLoops, player.ref]);
 
   // Auto-advance to next track when current one ends
   useEffect(() => {
@@ -416,7 +733,7 @@ function AudioPlayerContent({ app, tracks, setTracks }: AudioPlayerContentProps)
 
     const handleEnded = () => {
       // If repeat track is on, the audio element handles looping via loop property
-      if (repeatMode === "track") return;
+      if (repeatMode === "track" || audio.loop) return;
 
       const currentIndex = tracks.findIndex((t) => t.id === player.activeItem?.id);
       if (currentIndex >= 0 && currentIndex < tracks.length - 1) {
@@ -457,6 +774,7 @@ function AudioPlayerContent({ app, tracks, setTracks }: AudioPlayerContentProps)
             </div>
           </div>
         )}
+        <SaveQueueBar app={app} tracks={tracks} />
       </div>
     </TrackLoaderContext.Provider>
   );
@@ -0,0 +1,564 @@
+/**
+ * Local stand-in for the ElevenLabs API, for developing and testing the
+ * player without an API key or spending credits.
+ *
+ * Implements the voices, text-to-speech, dialogue, sound effects, music,
+ * pronunciation dictionary and subscription endpoints the server uses. Audio is synthetic and fully
+ * deterministic: raw formats contain a sine tone, MP3 formats contain silent
+ * frames, and the length follows the text or requested duration.
+ *
+ * Run with `npm run mock`, then point the server at it with
+ * `ELEVENLABS_BASE_URL=http://localhost:8787` and any `ELEVENLABS_API_KEY`.
+ */
+
+import cors from "cors";
+import express from "express";
+import type { Request, Response } from "express";
+import type { Server } from "node:http";
+import { pathToFileURL } from "node:url";
+
+import { getRawEncoding, OUTPUT_FORMATS, type OutputFormat } from "./output-formats.js";
+import { estimateMusicCost, estimateSoundEffectCost, estimateSpeechCost } from "./usage.js";
+
+const DEFAULT_PORT = 8787;
+const CHARACTERS_PER_SECOND = 15; // Roughly conversational speech
+const MIN_SPEECH_SECONDS = 0.5;
+const DEFAULT_SFX_SECONDS = 2;
+const DEFAULT_MUSIC_SECONDS = 30;
+const TONE_HZ = 440;
+const CHARACTER_LIMIT = 100000;
+const STREAM_CHUNK_BYTES = 8192;
+const STREAM_CHUNK_DELAY_MS = 50; // Paces streamed audio like a generation in progress
+
+interface MockVoice {
+  voice_id: string;
+  name: string;
+  category: string;
+  description: string;
+  labels: Record<string, string>;
+}
+
+const MOCK_VOICES: MockVoice[] = [
+  {
+    // The server's default voice, so generate_tts works without a voice_id
+    voice_id: "aMSt68OGf4xUZAnLpTU8",
+    name: "Juniper (Mock)",
+    category: "premade",
+    description: "Default voice served by the mock API",
+    labels: { gender: "female", accent: "american", age: "middle_aged", language: "en", use_case: "narration" },
+  },
+  {
+    voice_id: "mock-voice-alice",
+    name: "Alice (Mock)",
+    category: "premade",
+    description: "Calm narration voice served by the mock API",
+    labels: { gender: "female", accent: "british", age: "middle_aged", language: "en", use_case: "narration" },
+  },
+  {
+    voice_id: "mock-voice-bob",
+    name: "Bob (Mock)",
+    category: "premade",
+    description: "Upbeat conversational voice served by the mock API",
+    labels: { gender: "male", accent: "american", age: "young", language: "en", use_case: "conversational" },
+  },
+  {
+    voice_id: "mock-voice-carmen",
+    name: "Carmen (Mock)",
+    category: "generated",
+    description: "Warm Spanish voice served by the mock API",
+    labels: { gender: "female", accent: "castilian", age: "middle_aged", language: "es", use_case: "characters" },
+  },
+];
+
+const DEFAULT_VOICE_SETTINGS = {
+  stability: 0.5,
+  similarity_boost: 0.75,
+  style: 0,
+  use_speaker_boost: true,
+  speed: 1,
+};
+
+/**
+ * Synthesizes audio of the given length in an API output format.
+ *
+ * Raw encodings carry a sine tone (µ-law and A-law are silent). MP3 formats
+ * carry silent constant-bitrate frames, so duration estimates from file size
+ * hold. Opus is not supported.
+ */
+export function synthesizeAudio(format: OutputFormat, durationSeconds: number): Uint8Array {
+  const encoding = getRawEncoding(format);
+  if (encoding) {
+    const samples = Math.round(encoding.sampleRate * durationSeconds);
+    if (encoding.bitsPerSample === 8) {
+      // µ-law and A-law silence
+      return new Uint8Array(samples).fill(format.startsWith("ulaw") ? 0xff : 0xd5);
+    }
+    const pcm = new Uint8Array(samples * 2);
+    const view = new DataView(pcm.buffer);
+    for (let i = 0; i < samples; i++) {
+      const value = Math.sin((2 * Math.PI * TONE_HZ * i) / encoding.sampleRate) * 0.2 * 0x7fff;
+      view.setInt16(i * 2, Math.round(value), true);
+    }
+    return pcm;
+  }
+  if (format.startsWith("mp3_")) {
+    return silentMp3(format, durationSeconds);
+  }
+  throw new Error(`The mock server cannot produce ${format} audio`);
+}
+
+// MPEG Layer III bitrates (kbps) by bitrate index, for MPEG-1 and MPEG-2
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+const MPEG2_SAMPLE_RATES = [22050, 24000, 16000];
+
+// Mono frames with zeroed side information decode as silence
+function silentMp3(format: OutputFormat, durationSeconds: number): Uint8Array {
+  const [, rate, kbps] = format.split("_").map((part) => parseInt(part, 10));
+  const mpeg1 = MPEG1_SAMPLE_RATES.includes(rate);
+  const bitrateIndex = (mpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES).indexOf(kbps);
+  const sampleRateIndex = (mpeg1 ? MPEG1_SAMPLE_RATES : MPEG2_SAMPLE_RATES).indexOf(rate);
+  const samplesPerFrame = mpeg1 ? 1152 : 576;
+  const frameBytes = (samplesPerFrame / 8) * kbps * 1000; // Times the sample rate
+  const frameCount = Math.max(1, Math.round((durationSeconds * rate) / samplesPerFrame));
+
+  const frames: Uint8Array[] = [];
+  let remainder = 0;
+  for (let i = 0; i < frameCount; i++) {
+    // Pad some frames by a byte so the stream averages out to the exact bitrate
+    remainder += frameBytes % rate;
+    const padding = remainder >= rate ? 1 : 0;
+    remainder -= padding * rate;
+
+    const frame = new Uint8Array(Math.floor(frameBytes / rate) + padding);
+    frame[0] = 0xff;
+    frame[1] = mpeg1 ? 0xfb : 0xf3;
+    frame[2] = (bitrateIndex << 4) | (sampleRateIndex << 2) | (padding << 1);
+    frame[3] = 0xc0; // Mono
+    frames.push(frame);
+  }
+
+  const result = new Uint8Array(frames.reduce((acc, frame) => acc + frame.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    result.set(frame, offset);
+    offset += frame.length;
+  }
+  return result;
+}
+
+/**
+ * Spreads the characters of a text evenly over the given duration, in the
+ * API's alignment format.
+ */
+function alignText(text: string, durationSeconds: number) {
+  const step = durationSeconds / Math.max(1, text.length);
+  const characters = [...text];
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, i) => round(i * step)),
+    character_end_times_seconds: characters.map((_, i) => round((i + 1) * step)),
+  };
+}
+
+function speechSeconds(text: string): number {
+  return Math.max(MIN_SPEECH_SECONDS, text.length / CHARACTERS_PER_SECOND);
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function parseOutputFormat(req: Request): OutputFormat {
+  const format = (req.query.output_format as string | undefined) ?? "mp3_44100_128";
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new MockError(422, "invalid_output_format", `Unknown output format: ${format}`);
+  }
+  return format as OutputFormat;
+}
+
+function sendAudio(res: Response, format: OutputFormat, durationSeconds: number): void {
+  const contentType = getRawEncoding(format) ? "application/octet-stream" : "audio/mpeg";
+  res.type(contentType).send(Buffer.from(synthesizeAudio(format, durationSeconds)));
+}
+
+function base64Audio(format: OutputFormat, durationSeconds: number): string {
+  return Buffer.from(synthesizeAudio(format, durationSeconds)).toString("base64");
+}
+
+class MockError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+function toVoiceResponse(voice: MockVoice, baseUrl: string) {
+  return {
+    ...voice,
+    preview_url: `${baseUrl}/v1/voices/${voice.voice_id}/samples/preview/audio`,
+    samples: [{ sample_id: "preview", file_name: "preview.mp3", mime_type: "audio/mpeg" }],
+    settings: DEFAULT_VOICE_SETTINGS,
+  };
+}
+
+interface MockDictionary {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  rules: { string_to_replace: string }[];
+  creation_time_unix: number;
+  archived_time_unix?: number;
+}
+
+function toDictionaryResponse(dictionary: MockDictionary) {
+  return {
+    id: dictionary.id,
+    latest_version_id: `${dictionary.id}-v${dictionary.version}`,
+    latest_version_rules_num: dictionary.rules.length,
+    name: dictionary.name,
+    description: dictionary.description,
+    permission_on_resource: "admin",
+    created_by: "mock-user",
+    creation_time_unix: dictionary.creation_time_unix,
+    archived_time_unix: dictionary.archived_time_unix,
+  };
+}
+
+// Rules are keyed by the text they replace; a new rule for the same text wins
+function mergeRules(existing: MockDictionary["rules"], added: MockDictionary["rules"]): MockDictionary["rules"] {
+  const strings = new Set(added.map((rule) => rule.string_to_replace));
+  return [...existing.filter((rule) => !strings.has(rule.string_to_replace)), ...added];
+}
+
+function findVoice(voiceId: string): MockVoice {
+  const voice = MOCK_VOICES.find((v) => v.voice_id === voiceId);
+  if (!voice) {
+    throw new MockError(404, "voice_not_found", `A voice with the voice_id ${voiceId} was not found.`);
+  }
+  return voice;
+}
+
+/**
+ * Creates the Express app for the mock API.
+ *
+ * Credits are counted per app instance, so budgets and the usage ledger can be
+ * exercised against the subscription endpoint.
+ */
+export function createMockApp() {
+  const app = express();
+  let characterCount = 0;
+  const dictionaries = new Map<string, MockDictionary>();
+
+  // Speech responses report their cost in a character-cost header, like the API
+  const chargeSpeech = (res: Response, text: string, modelId: string | undefined) => {
+    const { credits } = estimateSpeechCost(text.length, modelId ?? "");
+    characterCount += credits;
+    res.setHeader("character-cost", String(credits));
+  };
+
+  const findDictionary = (dictionaryId: string) => {
+    const dictionary = dictionaries.get(dictionaryId);
+    if (!dictionary) {
+      throw new MockError(404, "pronunciation_dictionary_not_found", `A pronunciation dictionary with the id ${dictionaryId} was not found.`);
+    }
+    return dictionary;
+  };
+
+  // Generations fail on unknown dictionaries, as they do against the real API
+  const checkDictionaryLocators = (body: { pronunciation_dictionary_locators?: { pronunciation_dictionary_id: string }[] }) => {
+    for (const locator of body.pronunciation_dictionary_locators ?? []) {
+      findDictionary(locator.pronunciation_dictionary_id);
+    }
+  };
+
+  const rulesResponse = (dictionary: MockDictionary) => ({
+    id: dictionary.id,
+    version_id: `${dictionary.id}-v${dictionary.version}`,
+    version_rules_num: dictionary.rules.length,
+  });
+
+  app.use(cors());
+  app.use(express.json({ limit: "10mb" }));
+
+  // Like the real API, reject requests without a key; any value is accepted
+  app.use((req, res, next) => {
+    if (!req.header("xi-api-key")) {
+      res.status(401).json({ detail: { status: "missing_api_key", message: "Missing xi-api-key header" } });
+      return;
+    }
+    console.error(`[Mock API] ${req.method} ${req.path}`);
+    next();
+  });
+
+  const baseUrlOf = (req: Request) => `${req.protocol}://${req.get("host")}`;
+
+  app.get("/v1/user/subscription", (_req, res) => {
+    res.json({
+      tier: "mock",
+      character_count: characterCount,
+      character_limit: CHARACTER_LIMIT,
+      max_credit_limit_extension: 0,
+      can_extend_character_limit: false,
+      allowed_to_extend_character_limit: false,
+      next_character_count_reset_unix: null,
+      voice_slots_used: 0,
+      professional_voice_slots_used: 0,
+      professional_voice_slots_used_in_workspace: 0,
+      voice_limit: 10,
+      voice_add_edit_counter: 0,
+      professional_voice_limit: 0,
+      can_extend_voice_limit: false,
+      can_use_instant_voice_cloning: false,
+      can_use_professional_voice_cloning: false,
+      current_overage: { amount: "0", currency: "usd" },
+      status: "free",
+      open_invoices: [],
+      has_open_invoices: false,
+    });
+  });
+
+  app.get("/v2/voices", (req, res) => {
+    const search = (req.query.search as string | undefined)?.toLowerCase();
+    const category = req.query.category as string | undefined;
+    const pageSize = parseInt((req.query.page_size as string | undefined) ?? "10", 10);
+    const start = parseInt((req.query.next_page_token as string | undefined) ?? "0", 10);
+
+    const matches = MOCK_VOICES.filter((voice) => {
+      if (category && voice.category !== category) return false;
+      if (search && ![voice.name, voice.description, ...Object.values(voice.labels)].some((v) => v.toLowerCase().includes(search))) return false;
+      for (const label of ["gender", "accent", "language"]) {
+        const wanted = req.query[label] as string | undefined;
+        if (wanted && voice.labels[label] !== wanted) return false;
+      }
+      return true;
+    });
+    const page = matches.slice(start, start + pageSize);
+    const hasMore = start + pageSize < matches.length;
+
+    res.json({
+      voices: page.map((voice) => toVoiceResponse(voice, baseUrlOf(req))),
+      has_more: hasMore,
+      total_count: matches.length,
+      next_page_token: hasMore ? String(start + pageSize) : null,
+    });
+  });
+
+  app.get("/v1/voices/:voiceId", (req, res) => {
+    res.json(toVoiceResponse(findVoice(req.params.voiceId), baseUrlOf(req)));
+  });
+
+  app.get("/v1/voices/:voiceId/settings", (req, res) => {
+    findVoice(req.params.voiceId);
+    res.json(DEFAULT_VOICE_SETTINGS);
+  });
+
+  app.get("/v1/voices/:voiceId/samples/:sampleId/audio", (req, res) => {
+    findVoice(req.params.voiceId);
+    sendAudio(res, "pcm_22050", 2);
+  });
+
+  app.post("/v1/text-to-speech/:voiceId", (req, res) => {
+    findVoice(req.params.voiceId);
+    checkDictionaryLocators(req.body);
+    const format = parseOutputFormat(req);
+    const text = String(req.body.text ?? "");
+    chargeSpeech(res, text, req.body.model_id);
+    sendAudio(res, format, speechSeconds(text));
+  });
+
+  app.post("/v1/text-to-speech/:voiceId/stream", async (req, res) => {
+    findVoice(req.params.voiceId);
+    checkDictionaryLocators(req.body);
+    const format = parseOutputFormat(req);
+    const text = String(req.body.text ?? "");
+    chargeSpeech(res, text, req.body.model_id);
+
+    const audio = synthesizeAudio(format, speechSeconds(text));
+    res.type(getRawEncoding(format) ? "application/octet-stream" : "audio/mpeg");
+    for (let offset = 0; offset < audio.length; offset += STREAM_CHUNK_BYTES) {
+      res.write(audio.subarray(offset, offset + STREAM_CHUNK_BYTES));
+      await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    }
+    res.end();
+  });
+
+  app.post("/v1/text-to-speech/:voiceId/with-timestamps", (req, res) => {
+    findVoice(req.params.voiceId);
+    checkDictionaryLocators(req.body);
+    const format = parseOutputFormat(req);
+    const text = String(req.body.text ?? "");
+    const duration = speechSeconds(text);
+    chargeSpeech(res, text, req.body.model_id);
+    const alignment = alignText(text, duration);
+    res.json({ audio_base64: base64Audio(format, duration), alignment, normalized_alignment: alignment });
+  });
+
+  app.post("/v1/text-to-dialogue/with-timestamps", (req, res) => {
+    const format = parseOutputFormat(req);
+    const inputs: { text: string; voice_id: string }[] = req.body.inputs ?? [];
+    inputs.forEach((input) => findVoice(input.voice_id));
+    checkDictionaryLocators(req.body);
+
+    // Turns are voiced back to back, separated by a space in the alignment
+    const text = inputs.map((input) => input.text).join(" ");
+    let charIndex = 0;
+    let time = 0;
+    const voiceSegments = inputs.map((input, index) => {
+      const duration = speechSeconds(input.text);
+      const segment = {
+        voice_id: input.voice_id,
+        start_time_seconds: round(time),
+        end_time_seconds: round(time + duration),
+        character_start_index: charIndex,
+        character_end_index: charIndex + input.text.length,
+        dialogue_input_index: index,
+      };
+      charIndex += input.text.length + 1;
+      time += duration;
+      return segment;
+    });
+
+    chargeSpeech(res, text, req.body.model_id);
+    const alignment = alignText(text, time);
+    res.json({
+      audio_base64: base64Audio(format, time),
+      alignment,
+      normalized_alignment: alignment,
+      voice_segments: voiceSegments,
+    });
+  });
+
+  app.post("/v1/sound-generation", (req, res) => {
+    const format = parseOutputFormat(req);
+    const duration = req.body.duration_seconds ?? DEFAULT_SFX_SECONDS;
+    characterCount += estimateSoundEffectCost(duration).credits;
+    sendAudio(res, format, duration);
+  });
+
+  app.post("/v1/music/plan", (req, res) => {
+    const total = (req.body.music_length_ms ?? DEFAULT_MUSIC_SECONDS * 1000) as number;
+    const prompt = String(req.body.prompt ?? "");
+    const names = ["Intro", "Verse", "Chorus", "Outro"];
+    res.json({
+      positive_global_styles: prompt ? [prompt] : [],
+      negative_global_styles: [],
+      sections: names.map((name) => ({
+        section_name: name,
+        positive_local_styles: [],
+        negative_local_styles: [],
+        duration_ms: Math.round(total / names.length),
+        lines: [],
+      })),
+    });
+  });
+
+  app.post("/v1/music", (req, res) => {
+    const format = parseOutputFormat(req);
+    const plan = req.body.composition_plan as { sections?: { duration_ms: number }[] } | undefined;
+    const lengthMs = plan?.sections
+      ? plan.sections.reduce((acc, section) => acc + section.duration_ms, 0)
+      : req.body.music_length_ms ?? DEFAULT_MUSIC_SECONDS * 1000;
+    characterCount += estimateMusicCost(lengthMs / 1000).credits;
+    sendAudio(res, format, lengthMs / 1000);
+  });
+
+  app.post("/v1/pronunciation-dictionaries/add-from-rules", (req, res) => {
+    const id = `mock-dictionary-${dictionaries.size + 1}`;
+    const dictionary: MockDictionary = {
+      id,
+      name: String(req.body.name ?? id),
+      description: req.body.description,
+      version: 1,
+      rules: mergeRules([], req.body.rules ?? []),
+      creation_time_unix: Math.floor(Date.now() / 1000),
+    };
+    dictionaries.set(id, dictionary);
+    const { latest_version_id, latest_version_rules_num, ...rest } = toDictionaryResponse(dictionary);
+    res.json({ ...rest, version_id: latest_version_id, version_rules_num: latest_version_rules_num });
+  });
+
+  app.get("/v1/pronunciation-dictionaries", (req, res) => {
+    const includeArchived = req.query.include_archived === "true";
+    const pageSize = parseInt((req.query.page_size as string | undefined) ?? "30", 10);
+    const start = parseInt((req.query.cursor as string | undefined) ?? "0", 10);
+    const matches = [...dictionaries.values()].filter((d) => includeArchived || d.archived_time_unix === undefined);
+    const hasMore = start + pageSize < matches.length;
+    res.json({
+      pronunciation_dictionaries: matches.slice(start, start + pageSize).map(toDictionaryResponse),
+      next_cursor: hasMore ? String(start + pageSize) : null,
+      has_more: hasMore,
+    });
+  });
+
+  app.get("/v1/pronunciation-dictionaries/:dictionaryId", (req, res) => {
+    const dictionary = findDictionary(req.params.dictionaryId);
+    res.json({ ...toDictionaryResponse(dictionary), rules: dictionary.rules });
+  });
+
+  app.patch("/v1/pronunciation-dictionaries/:dictionaryId", (req, res) => {
+    const dictionary = findDictionary(req.params.dictionaryId);
+    if (req.body.name !== undefined) dictionary.name = req.body.name;
+    if (req.body.archived !== undefined) {
+      dictionary.archived_time_unix = req.body.archived ? Math.floor(Date.now() / 1000) : undefined;
+    }
+    res.json(toDictionaryResponse(dictionary));
+  });
+
+  app.post("/v1/pronunciation-dictionaries/:dictionaryId/set-rules", (req, res) => {
+    const dictionary = findDictionary(req.params.dictionaryId);
+    dictionary.rules = mergeRules([], req.body.rules ?? []);
+    dictionary.version++;
+    res.json(rulesResponse(dictionary));
+  });
+
+  app.post("/v1/pronunciation-dictionaries/:dictionaryId/add-rules", (req, res) => {
+    const dictionary = findDictionary(req.params.dictionaryId);
+    dictionary.rules = mergeRules(dictionary.rules, req.body.rules ?? []);
+    dictionary.version++;
+    res.json(rulesResponse(dictionary));
+  });
+
+  app.post("/v1/pronunciation-dictionaries/:dictionaryId/remove-rules", (req, res) => {
+    const dictionary = findDictionary(req.params.dictionaryId);
+    const removed = new Set<string>(req.body.rule_strings ?? []);
+    dictionary.rules = dictionary.rules.filter((rule) => !removed.has(rule.string_to_replace));
+    dictionary.version++;
+    res.json(rulesResponse(dictionary));
+  });
+
+  app.use((req, res) => {
+    res.status(404).json({
+      detail: { status: "not_found", message: `The mock server does not implement ${req.method} ${req.path}` },
+    });
+  });
+
+  app.use((error: Error, _req: Request, res: Response, _next: express.NextFunction) => {
+    const status = error instanceof MockError ? error.status : 500;
+    const code = error instanceof MockError ? error.code : "internal_error";
+    res.status(status).json({ detail: { status: code, message: error.message } });
+  });
+
+  return app;
+}
+
+/**
+ * Starts the mock API on the given port.
+ */
+export function startMockServer(port = DEFAULT_PORT): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const httpServer = createMockApp().listen(port, (err?: Error) => {
+      if (err) return reject(err);
+      console.error(`[Mock API] Listening on http://localhost:${port}`);
+      resolve(httpServer);
+    });
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  startMockServer(parseInt(process.env.MOCK_PORT ?? String(DEFAULT_PORT), 10)).catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Output formats supported by the ElevenLabs generation endpoints, and helpers
+ * for turning the raw API response into a playable file.
+ */
+
+/**
+ * Output formats accepted by text-to-speech, sound effects and music alike.
+ *
+ * Names follow the API: `<codec>_<sample rate>[_<bitrate>]`.
+ */
+export const OUTPUT_FORMATS = [
+  "mp3_22050_32",
+  "mp3_24000_48",
+  "mp3_44100_32",
+  "mp3_44100_64",
+  "mp3_44100_96",
+  "mp3_44100_128",
+  "mp3_44100_192",
+  "pcm_8000",
+  "pcm_16000",
+  "pcm_22050",
+  "pcm_24000",
+  "pcm_32000",
+  "pcm_44100",
+  "pcm_48000",
+  "ulaw_8000",
+  "alaw_8000",
+  "opus_48000_32",
+  "opus_48000_64",
+  "opus_48000_96",
+  "opus_48000_128",
+  "opus_48000_192",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Format used by the API when none is requested. */
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = "mp3_44100_128";
+
+// WAVE format tags for the raw encodings the API can return
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_ALAW = 6;
+const WAVE_FORMAT_MULAW = 7;
+
+interface RawEncoding {
+  formatTag: number;
+  bitsPerSample: number;
+  sampleRate: number;
+}
+
+/**
+ * Returns the encoding of a headerless output format, or null if the format
+ * is already a self-describing container (MP3, Ogg Opus).
+ */
+export function getRawEncoding(format: OutputFormat): RawEncoding | null {
+  const [codec, rate] = format.split("_");
+  const sampleRate = parseInt(rate, 10);
+  switch (codec) {
+    case "pcm":
+      return { formatTag: WAVE_FORMAT_PCM, bitsPerSample: 16, sampleRate };
+    case "ulaw":
+      return { formatTag: WAVE_FORMAT_MULAW, bitsPerSample: 8, sampleRate };
+    case "alaw":
+      return { formatTag: WAVE_FORMAT_ALAW, bitsPerSample: 8, sampleRate };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the file extension for audio generated in the given format.
+ * Raw encodings are saved as WAV, since they are wrapped in a RIFF header.
+ */
+export function getOutputExtension(format: OutputFormat): string {
+  if (getRawEncoding(format)) return ".wav";
+  if (format.startsWith("opus_")) return ".opus";
+  return ".mp3";
+}
+
+/**
+ * Estimates the playback duration of audio in the given format from its size.
+ *
+ * Exact for raw encodings; for MP3 it relies on the API producing constant
+ * bitrate streams. Returns null for Opus, whose bitrate is variable.
+ */
+export function estimateDurationSeconds(format: OutputFormat, byteLength: number): number | null {
+  const encoding = getRawEncoding(format);
+  if (encoding) {
+    return byteLength / (encoding.sampleRate * (encoding.bitsPerSample / 8));
+  }
+  if (format.startsWith("mp3_")) {
+    const kbps = parseInt(format.split("_")[2], 10);
+    return (byteLength * 8) / (kbps * 1000);
+  }
+  return null;
+}
+
+/**
+ * Builds a 44-byte RIFF/WAVE header for mono audio of the given encoding.
+ */
+export function createWavHeader(dataLength: number, encoding: RawEncoding): Uint8Array {
+  const header = new Uint8Array(44);
+  const view = new DataView(header.buffer);
+  const blockAlign = encoding.bitsPerSample / 8;
+
+  writeAscii(header, 0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  writeAscii(header, 8, "WAVE");
+  writeAscii(header, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, encoding.formatTag, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, encoding.sampleRate, true);
+  view.setUint32(28, encoding.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, encoding.bitsPerSample, true);
+  writeAscii(header, 36, "data");
+  view.setUint32(40, dataLength, true);
+
+  return header;
+}
+
+/**
+ * Wraps headerless PCM, µ-law or A-law audio in a WAV container so browsers
+ * can play it. Container formats are returned unchanged.
+ */
+export function encodeForOutput(format: OutputFormat, audio: Uint8Array): Uint8Array {
+  const encoding = getRawEncoding(format);
+  if (!encoding) return audio;
+
+  const header = createWavHeader(audio.length, encoding);
+  const result = new Uint8Array(header.length + audio.length);
+  result.set(header, 0);
+  result.set(audio, header.length);
+  return result;
+}
+
+function writeAscii(target: Uint8Array, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    target[offset + i] = text.charCodeAt(i);
+  }
+}
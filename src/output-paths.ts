@@ -0,0 +1,197 @@
+/**
+ * Naming and placement of generated files inside the output directory.
+ *
+ * File names follow a template set in ELEVENLABS_FILENAME_TEMPLATE. Templates
+ * may contain `/` to sort files into subdirectories, e.g. by type or date.
+ * Names are never reused: a name that is taken, on disk or by a generation
+ * still in progress, gets a number appended instead.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** The default template, matching the original `<type>_<timestamp>` names. */
+export const DEFAULT_FILENAME_TEMPLATE = "{type}_{timestamp}";
+
+const TOKENS = ["type", "date", "time", "timestamp", "title-slug", "voice", "seq"] as const;
+const MAX_SLUG_LENGTH = 60;
+
+/**
+ * Values for the template tokens of a generated file.
+ */
+export interface OutputNameOptions {
+  /** Generation type, e.g. "tts" or "sfx". */
+  type: string;
+  /** Extension including the dot, or "" for a directory. */
+  extension: string;
+  /** Source of `{title-slug}`, e.g. the track title or prompt. */
+  title?: string;
+  /** Value of `{voice}`, e.g. the voice name. */
+  voice?: string;
+}
+
+// File paths handed out but not yet written, so concurrent generations never
+// pick the same name
+const reservedPaths = new Set<string>();
+
+/**
+ * Reads the filename template from ELEVENLABS_FILENAME_TEMPLATE.
+ */
+export function getFilenameTemplate(): string {
+  return process.env.ELEVENLABS_FILENAME_TEMPLATE?.trim() || DEFAULT_FILENAME_TEMPLATE;
+}
+
+/**
+ * Whether the filename template uses a token, e.g. to skip looking up a voice
+ * name that won't be used.
+ */
+export function templateUsesToken(token: (typeof TOKENS)[number]): boolean {
+  return getFilenameTemplate().includes(`{${token}}`);
+}
+
+/**
+ * Picks a new, unused path for a generated file and creates its directory.
+ *
+ * Without `outputPath`, the path is built from the filename template inside
+ * `rootDir`. An `outputPath` overrides it: relative paths are resolved against
+ * `rootDir`, paths ending in a separator name a directory to place a templated
+ * name in, and the extension is added if missing. The result must stay inside
+ * `rootDir`, also once symlinks are resolved.
+ *
+ * A file path stays reserved until {@link releaseOutputPath} is called.
+ */
+export async function allocateOutputPath(rootDir: string, options: OutputNameOptions, outputPath?: string): Promise<string> {
+  const root = path.resolve(rootDir);
+  let target: string;
+
+  if (outputPath) {
+    const resolved = path.resolve(root, outputPath);
+    if (/[\\/]$/.test(outputPath)) {
+      target = path.join(resolved, path.basename(renderTemplate(options, 1)));
+    } else {
+      const extension = path.extname(resolved);
+      if (!options.extension && extension) {
+        throw new Error(`output_path names a directory here and can't have an extension: ${outputPath}`);
+      }
+      if (options.extension && extension && extension.toLowerCase() !== options.extension) {
+        throw new Error(`output_path has extension ${extension}, but the output format produces ${options.extension} files`);
+      }
+      target = extension ? resolved.slice(0, -extension.length) : resolved;
+    }
+  } else {
+    target = path.join(root, renderTemplate(options, 1));
+  }
+
+  const outside = () => new Error(`Output path must be inside the output directory ${root}`);
+  if (!isInside(root, target)) {
+    throw outside();
+  }
+  // A symlinked folder inside the output directory could still lead out of it
+  if (outputPath) {
+    const realParent = await resolveSymlinks(path.dirname(target));
+    if (!isInside(await resolveSymlinks(root), path.join(realParent, path.basename(target)))) {
+      throw outside();
+    }
+  }
+
+  // With {seq}, collisions take the next sequence number; otherwise a suffix
+  const usesSeq = !outputPath && templateUsesToken("seq");
+  for (let n = 1; ; n++) {
+    const candidate = usesSeq
+      ? path.join(root, renderTemplate(options, n)) + options.extension
+      : `${target}${n > 1 ? `-${n}` : ""}${options.extension}`;
+    if (reservedPaths.has(candidate) || await exists(candidate)) continue;
+
+    reservedPaths.add(candidate);
+    try {
+      await fs.mkdir(options.extension ? path.dirname(candidate) : candidate, { recursive: true });
+    } catch (error) {
+      reservedPaths.delete(candidate);
+      throw error;
+    }
+    // A directory is taken as soon as it exists
+    if (!options.extension) reservedPaths.delete(candidate);
+    return candidate;
+  }
+}
+
+/**
+ * Releases a path from {@link allocateOutputPath} once its file is written,
+ * or when writing it failed.
+ */
+export function releaseOutputPath(filePath: string): void {
+  reservedPaths.delete(filePath);
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== "" && relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+// Resolve symlinks in the part of a path that exists; the rest is kept as is
+async function resolveSymlinks(target: string): Promise<string> {
+  const missing: string[] = [];
+  for (let current = target; ; current = path.dirname(current)) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch {
+      if (path.dirname(current) === current) return target;
+      missing.unshift(path.basename(current));
+    }
+  }
+}
+
+// Render the template into a relative path without extension
+function renderTemplate(options: OutputNameOptions, seq: number): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const values: Record<(typeof TOKENS)[number], string> = {
+    type: options.type,
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`,
+    timestamp: now.toISOString().replace(/[:.]/g, "-"),
+    "title-slug": slugify(options.title ?? "").slice(0, MAX_SLUG_LENGTH).replace(/-+$/, ""),
+    voice: slugify(options.voice ?? ""),
+    seq: String(seq).padStart(3, "0"),
+  };
+
+  const segments = getFilenameTemplate()
+    .split(/[\\/]/)
+    .map((segment) =>
+      segment
+        .replace(/\{([^}]*)\}/g, (token, name: string) => {
+          if (!(TOKENS as readonly string[]).includes(name)) {
+            throw new Error(`Unknown token ${token} in ELEVENLABS_FILENAME_TEMPLATE. Use one of ${TOKENS.map((t) => `{${t}}`).join(", ")}`);
+          }
+          return values[name as (typeof TOKENS)[number]];
+        })
+        // Unset tokens leave doubled or dangling separators behind
+        .replace(/[^\w.-]+/g, "_")
+        .replace(/([_-])[_-]+/g, "$1")
+        .replace(/^[_.-]+|[_.-]+$/g, ""))
+    .filter(Boolean);
+
+  if (segments.length === 0) {
+    return `${options.type}_${values.timestamp}`;
+  }
+  return path.join(...segments);
+}
+
+function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Dangling symlinks count too, as writing through one would follow it
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Named playlists, saved as extended M3U8 files in a `playlists` folder inside
+ * the output directory, so they can be reopened later or in other players.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { isPlaylistFile, readPlaylistFile } from "./audio-sources.js";
+
+const PLAYLISTS_DIRNAME = "playlists";
+const PLAYLIST_EXTENSION = ".m3u8";
+let tempFileCounter = 0;
+
+/**
+ * A track written to a playlist.
+ */
+export interface PlaylistTrack {
+  filePath: string;
+  title: string;
+  artist?: string;
+  /** Seconds, if known. */
+  duration?: number;
+}
+
+/**
+ * A playlist found in the playlists directory.
+ */
+export interface PlaylistSummary {
+  name: string;
+  path: string;
+  track_count: number;
+  modified: string;
+}
+
+/**
+ * The directory playlists are saved in.
+ */
+export function getPlaylistsDir(outputDir: string): string {
+  return path.join(outputDir, PLAYLISTS_DIRNAME);
+}
+
+/**
+ * Saves tracks as a named playlist and returns the file path. Fails if the
+ * playlist exists, unless `overwrite` is set.
+ */
+export async function savePlaylist(outputDir: string, name: string, tracks: PlaylistTrack[], overwrite = false): Promise<string> {
+  const filePath = path.join(getPlaylistsDir(outputDir), `${checkPlaylistName(name)}${PLAYLIST_EXTENSION}`);
+  if (!overwrite && (await findPlaylist(outputDir, name).catch(() => undefined))) {
+    throw new Error(`Playlist "${name}" already exists. Choose another name or overwrite it`);
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${++tempFileCounter}.tmp`;
+  try {
+    await fs.writeFile(tmpPath, formatM3u8(name, tracks), "utf-8");
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+  return filePath;
+}
+
+/**
+ * Finds a playlist by name. Besides saved `.m3u8` playlists, `.m3u` and
+ * `.pls` files placed in the playlists directory are found too.
+ */
+export async function findPlaylist(outputDir: string, name: string): Promise<string> {
+  const base = path.join(getPlaylistsDir(outputDir), checkPlaylistName(name));
+  for (const extension of [PLAYLIST_EXTENSION, ".m3u", ".pls"]) {
+    try {
+      await fs.access(base + extension);
+      return base + extension;
+    } catch {
+      // Try the next extension
+    }
+  }
+  throw new Error(`Playlist "${name}" not found in ${getPlaylistsDir(outputDir)}`);
+}
+
+/**
+ * Lists the playlists in the playlists directory, by name.
+ */
+export async function listPlaylists(outputDir: string): Promise<PlaylistSummary[]> {
+  const dir = getPlaylistsDir(outputDir);
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const playlists: PlaylistSummary[] = [];
+  for (const fileName of names.filter(isPlaylistFile)) {
+    const filePath = path.join(dir, fileName);
+    const [entries, stats] = await Promise.all([readPlaylistFile(filePath), fs.stat(filePath)]);
+    playlists.push({
+      name: path.basename(fileName, path.extname(fileName)),
+      path: filePath,
+      track_count: entries.length,
+      modified: stats.mtime.toISOString(),
+    });
+  }
+  return playlists.sort((a, b) => a.name.localeCompare(b.name, "en", { numeric: true }));
+}
+
+/**
+ * Formats tracks as an extended M3U8 playlist. Each `#EXTINF` line holds the
+ * duration in whole seconds (-1 if unknown) and `Artist - Title`, for other
+ * players. An `#EXTART` line follows with the artist, empty if there is none,
+ * so titles containing " - " read back unchanged.
+ */
+export function formatM3u8(name: string, tracks: PlaylistTrack[]): string {
+  const lines = ["#EXTM3U", `#PLAYLIST:${singleLine(name)}`];
+  for (const track of tracks) {
+    const duration = track.duration !== undefined ? Math.round(track.duration) : -1;
+    const artist = singleLine(track.artist ?? "");
+    const title = artist ? `${artist} - ${singleLine(track.title)}` : singleLine(track.title);
+    lines.push(`#EXTINF:${duration},${title}`, `#EXTART:${artist}`, track.filePath);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function singleLine(text: string): string {
+  return text.replace(/[\r\n]+/g, " ").trim();
+}
+
+// Names become file names, so they can't contain path separators
+function checkPlaylistName(name: string): string {
+  const trimmed = name.trim().replace(/\.(m3u8?|pls)$/i, "");
+  if (!trimmed || trimmed.startsWith(".") || /[\\/:*?"<>|\0]/.test(trimmed)) {
+    throw new Error(`Invalid playlist name "${name}". Names can't be empty, start with a dot or contain \\ / : * ? " < > |`);
+  }
+  return trimmed;
+}
@@ -0,0 +1,110 @@
+/**
+ * Pronunciation dictionary rules: reading them from W3C PLS lexicon files and
+ * choosing the dictionaries that apply to a generation by default.
+ */
+
+import fs from "node:fs/promises";
+
+/**
+ * A pronunciation rule, in the shape the tools accept and return.
+ *
+ * Alias rules replace the matched text with other text before it is spoken.
+ * Phoneme rules give the exact pronunciation in a phonetic alphabet such as
+ * `ipa` or `cmu-arpabet`, and are only honoured by some models.
+ */
+export type PronunciationRule =
+  | { type: "alias"; string_to_replace: string; alias: string; case_sensitive?: boolean; word_boundaries?: boolean }
+  | { type: "phoneme"; string_to_replace: string; phoneme: string; alphabet: string; case_sensitive?: boolean; word_boundaries?: boolean };
+
+/**
+ * A dictionary applied to a generation. Without a version, the latest version
+ * is used.
+ */
+export interface DictionaryReference {
+  dictionary_id: string;
+  version_id?: string;
+}
+
+/**
+ * Reads the rules of a PLS lexicon file.
+ */
+export async function readPlsFile(filePath: string): Promise<PronunciationRule[]> {
+  return parsePls(await fs.readFile(filePath, "utf-8"));
+}
+
+/**
+ * Parses the rules of a PLS lexicon.
+ *
+ * Each grapheme of a lexeme becomes a rule. Where a lexeme lists several
+ * pronunciations, the first is used, as PLS marks it as preferred. Phonemes
+ * use the lexicon's alphabet unless they name their own.
+ */
+export function parsePls(xml: string): PronunciationRule[] {
+  const source = xml.replace(/<!--[\s\S]*?-->/g, "");
+  const lexicon = /<lexicon\b([^>]*)>/.exec(source);
+  if (!lexicon) {
+    throw new Error("Not a PLS lexicon: no <lexicon> element found");
+  }
+  const defaultAlphabet = readAttribute(lexicon[1], "alphabet");
+
+  const rules: PronunciationRule[] = [];
+  for (const [, lexeme] of source.matchAll(/<lexeme\b[^>]*>([\s\S]*?)<\/lexeme>/g)) {
+    const graphemes = [...lexeme.matchAll(/<grapheme\b[^>]*>([\s\S]*?)<\/grapheme>/g)].map(([, text]) => decodeXml(text).trim());
+    const pronunciation = /<(phoneme|alias)\b([^>]*)>([\s\S]*?)<\/\1>/.exec(lexeme);
+    if (graphemes.length === 0 || !pronunciation) continue;
+
+    const [, kind, attributes, content] = pronunciation;
+    const value = decodeXml(content).trim();
+    for (const grapheme of graphemes.filter(Boolean)) {
+      if (kind === "alias") {
+        rules.push({ type: "alias", string_to_replace: grapheme, alias: value });
+      } else {
+        const alphabet = readAttribute(attributes, "alphabet") ?? defaultAlphabet;
+        if (!alphabet) {
+          throw new Error(`No phonetic alphabet given for "${grapheme}"`);
+        }
+        rules.push({ type: "phoneme", string_to_replace: grapheme, phoneme: value, alphabet: alphabet.toLowerCase() });
+      }
+    }
+  }
+
+  if (rules.length === 0) {
+    throw new Error("The lexicon contains no rules");
+  }
+  return rules;
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`).exec(attributes);
+  return match ? decodeXml(match[2]) : undefined;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+      if (name[0] === "#") {
+        const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return XML_ENTITIES[name] ?? entity;
+    });
+}
+
+/**
+ * Reads the dictionaries applied to speech by default from
+ * ELEVENLABS_PRONUNCIATION_DICTIONARIES: a comma-separated list of dictionary
+ * IDs, each optionally followed by `:<version_id>`.
+ */
+export function getDefaultDictionaries(): DictionaryReference[] {
+  return (process.env.ELEVENLABS_PRONUNCIATION_DICTIONARIES ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [dictionaryId, versionId] = entry.split(":").map((part) => part.trim());
+      return { dictionary_id: dictionaryId, version_id: versionId || undefined };
+    });
+}
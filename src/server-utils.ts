@@ -9,8 +9,118 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import cors from "cors";
 import express from "express";
 import type { Request, Response } from "express";
+import { randomBytes, timingSafeEqual } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
+import { getAudioMimeType } from "./audio-formats.js";
+
+/**
+ * Host the audio file server binds to in stdio mode. Only local clients, such
+ * as the player UI, can reach it.
+ */
+const AUDIO_SERVER_HOST = "127.0.0.1";
+
+/**
+ * Secret required in every audio URL, so other local processes and web pages
+ * can't use the audio server to read files.
+ */
+const AUDIO_TOKEN = randomBytes(16).toString("hex");
+
+/**
+ * A file that is still being written, e.g. by a streaming generation.
+ */
+interface LiveFile {
+  /** Incremented on every write, so readers can tell whether they missed one. */
+  version: number;
+  done: boolean;
+  listeners: Set<() => void>;
+}
+
+const liveFiles = new Map<string, LiveFile>();
+
+/**
+ * Handle for a file registered with {@link beginLiveFile}.
+ */
+export interface LiveFileHandle {
+  /** Call after appending data to the file. */
+  update(): void;
+  /** Call once the file is complete (or abandoned). */
+  end(): void;
+}
+
+/**
+ * Marks a file as being written progressively. Until the returned handle is
+ * ended, requests for it are relayed as the file grows instead of being served
+ * at its current size.
+ *
+ * @param filePath - Path of the file, which must already exist.
+ */
+export function beginLiveFile(filePath: string): LiveFileHandle {
+  const absolutePath = path.resolve(filePath);
+  const live: LiveFile = { version: 0, done: false, listeners: new Set() };
+  liveFiles.set(absolutePath, live);
+
+  const notify = () => {
+    live.version++;
+    for (const listener of [...live.listeners]) listener();
+  };
+
+  return {
+    update: notify,
+    end: () => {
+      live.done = true;
+      if (liveFiles.get(absolutePath) === live) liveFiles.delete(absolutePath);
+      notify();
+    },
+  };
+}
+
+/**
+ * Resolves once a file registered with {@link beginLiveFile} is complete, or
+ * straight away if it isn't being written.
+ */
+export function waitForLiveFile(filePath: string): Promise<void> {
+  const live = liveFiles.get(path.resolve(filePath));
+  if (!live) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const listener = () => {
+      if (!live.done) return;
+      live.listeners.delete(listener);
+      resolve();
+    };
+    live.listeners.add(listener);
+  });
+}
+
+/**
+ * Returns the port of the audio file server, from the PORT environment
+ * variable (default: 3001).
+ */
+export function getAudioServerPort(): number {
+  return parseInt(process.env.PORT ?? "3001", 10);
+}
+
+/**
+ * Returns the origin the audio file server is reachable at in stdio mode.
+ */
+export function getAudioServerOrigin(): string {
+  return `http://${AUDIO_SERVER_HOST}:${getAudioServerPort()}`;
+}
+
+/**
+ * Returns the URL the audio file server serves a file at, including the
+ * access token.
+ */
+export function getAudioFileUrl(origin: string, filePath: string): string {
+  return `${origin}/audio?path=${encodeURIComponent(path.resolve(filePath))}&token=${AUDIO_TOKEN}`;
+}
+
+/**
+ * Returns the directories the audio file server may serve files from, besides
+ * files registered with {@link beginLiveFile}.
+ */
+export type AllowedAudioDirs = () => string[];
 
 /**
  * Starts an MCP server using the appropriate transport based on command-line arguments.
@@ -18,15 +128,17 @@ import path from "node:path";
  * If `--stdio` is passed, uses stdio transport. Otherwise, uses Streamable HTTP transport.
  *
  * @param createServer - Factory function that creates a new McpServer instance.
+ * @param allowedDirs - Directories audio files may be served from.
  */
 export async function startServer(
   createServer: () => McpServer,
+  allowedDirs: AllowedAudioDirs = () => [],
 ): Promise<void> {
   try {
     if (process.argv.includes("--stdio")) {
-      await startStdioServer(createServer);
+      await startStdioServer(createServer, allowedDirs);
     } else {
-      await startStreamableHttpServer(createServer);
+      await startStreamableHttpServer(createServer, allowedDirs);
     }
   } catch (e) {
     console.error(e);
@@ -34,33 +146,71 @@ export async function startServer(
   }
 }
 
+function hasValidToken(token: unknown): boolean {
+  if (typeof token !== "string" || token.length !== AUDIO_TOKEN.length) return false;
+  return timingSafeEqual(Buffer.from(token), Buffer.from(AUDIO_TOKEN));
+}
+
+// Whether a file may be served: files being written, and files inside the
+// allowed directories once symlinks are resolved
+async function isServableFile(absolutePath: string, allowedDirs: AllowedAudioDirs): Promise<boolean> {
+  if (liveFiles.has(absolutePath)) return true;
+  let realPath: string;
+  try {
+    realPath = await fs.promises.realpath(absolutePath);
+  } catch {
+    return false;
+  }
+  for (const dir of allowedDirs()) {
+    const realDir = await fs.promises.realpath(dir).catch(() => path.resolve(dir));
+    const relative = path.relative(realDir, realPath);
+    if (relative && !relative.startsWith("..") && !path.isAbsolute(relative)) return true;
+  }
+  return false;
+}
+
 /**
- * Handler for serving audio files with Range request support.
+ * Creates a handler for serving audio files with Range request support.
+ * Requests need the access token, and may only name files being written or
+ * inside the allowed directories.
  */
-function handleAudioRequest(req: Request, res: Response): void {
-  const filePath = req.query.path as string;
-  if (!filePath) {
-    res.status(400).send("Missing path query parameter");
-    return;
-  }
+function createAudioRequestHandler(allowedDirs: AllowedAudioDirs) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const filePath = req.query.path;
+    if (typeof filePath !== "string" || !filePath) {
+      res.status(400).send("Missing path query parameter");
+      return;
+    }
+    if (!hasValidToken(req.query.token)) {
+      res.status(403).send("Forbidden");
+      return;
+    }
 
-  const absolutePath = path.resolve(filePath);
-  if (!fs.existsSync(absolutePath)) {
-    res.status(404).send("File not found");
-    return;
-  }
+    const absolutePath = path.resolve(filePath);
+    // Answer the same for missing and disallowed files, so nothing is revealed
+    if (!(await isServableFile(absolutePath, allowedDirs))) {
+      res.status(404).send("File not found");
+      return;
+    }
+
+    await serveAudioFile(absolutePath, req, res);
+  };
+}
 
+async function serveAudioFile(absolutePath: string, req: Request, res: Response): Promise<void> {
   const stat = fs.statSync(absolutePath);
   const fileSize = stat.size;
-  const ext = path.extname(absolutePath).toLowerCase();
-  const mimeTypes: Record<string, string> = {
-    ".mp3": "audio/mpeg",
-    ".wav": "audio/wav",
-    ".ogg": "audio/ogg",
-    ".m4a": "audio/mp4",
-    ".aac": "audio/aac",
-  };
-  const contentType = mimeTypes[ext] ?? "application/octet-stream";
+  // Files still being written may be too short to sniff; the extension is used then
+  const contentType = await getAudioMimeType(absolutePath);
+
+  const live = liveFiles.get(absolutePath);
+  if (live) {
+    relayLiveFile(absolutePath, live, contentType, res).catch((error) => {
+      console.error(`[Audio Server] Failed to relay ${absolutePath}:`, error);
+      res.destroy();
+    });
+    return;
+  }
 
   const range = req.headers.range;
   if (range) {
@@ -86,24 +236,89 @@ function handleAudioRequest(req: Request, res: Response): void {
   }
 }
 
+/**
+ * Streams a file that is still being written, sending new data as it lands
+ * and ending the response once the file is complete.
+ *
+ * Range requests aren't honoured, as the final size isn't known yet.
+ */
+async function relayLiveFile(filePath: string, live: LiveFile, contentType: string, res: Response): Promise<void> {
+  res.writeHead(200, {
+    "Content-Type": contentType,
+    "Cache-Control": "no-store",
+  });
+
+  let wake: (() => void) | null = null;
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+    wake?.();
+  });
+
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    let offset = 0;
+    while (!closed) {
+      // Snapshot before reading, so data written just before the end is never missed
+      const version = live.version;
+      const done = live.done;
+
+      const { bytesRead, buffer } = await handle.read(Buffer.alloc(64 * 1024), 0, 64 * 1024, offset);
+      if (bytesRead > 0) {
+        offset += bytesRead;
+        if (!res.write(buffer.subarray(0, bytesRead))) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+            res.once("drain", resolve);
+          });
+        }
+        continue;
+      }
+      if (done) break;
+      if (live.version !== version) continue;
+
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+        live.listeners.add(resolve);
+      });
+      live.listeners.delete(wake!);
+    }
+  } finally {
+    await handle.close();
+    res.end();
+  }
+}
+
 /**
  * Starts a simple HTTP server just for serving audio files.
  * Used when running in stdio mode.
+ *
+ * @param allowedDirs - Directories files may be served from.
+ * @returns The server's origin, or null if it failed to start (e.g. because
+ * the port is already taken).
  */
-function startAudioFileServer(): void {
-  const port = parseInt(process.env.PORT ?? "3001", 10);
+export function startAudioFileServer(allowedDirs: AllowedAudioDirs): Promise<string | null> {
+  const port = getAudioServerPort();
   const app = express();
-  app.use(cors());
+  const handleAudioRequest = createAudioRequestHandler(allowedDirs);
 
+  // No CORS: the player plays these URLs in an <audio> element, which doesn't
+  // need it, and web pages must not be able to read the responses
   app.get("/audio", (req, res) => {
     console.error(`[Audio Server] Request for: ${req.query.path}`);
-    handleAudioRequest(req, res);
+    return handleAudioRequest(req, res);
   });
 
-  app.listen(port, () => {
-    console.error(`[Audio Server] Listening on http://localhost:${port}/audio`);
-  }).on("error", (err) => {
-    console.error(`[Audio Server] Failed to start: ${err.message}`);
+  return new Promise((resolve) => {
+    app.listen(port, AUDIO_SERVER_HOST, (err?: Error) => {
+      if (err) {
+        console.error(`[Audio Server] Failed to start: ${err.message}`);
+        resolve(null);
+        return;
+      }
+      console.error(`[Audio Server] Listening on ${getAudioServerOrigin()}/audio`);
+      resolve(getAudioServerOrigin());
+    });
   });
 }
 
@@ -112,12 +327,14 @@ function startAudioFileServer(): void {
  * Also starts an HTTP server to serve audio files.
  *
  * @param createServer - Factory function that creates a new McpServer instance.
+ * @param allowedDirs - Directories audio files may be served from.
  */
 export async function startStdioServer(
   createServer: () => McpServer,
+  allowedDirs: AllowedAudioDirs = () => [],
 ): Promise<void> {
   // Start audio file server alongside stdio transport
-  startAudioFileServer();
+  void startAudioFileServer(allowedDirs);
   await createServer().connect(new StdioServerTransport());
 }
 
@@ -131,18 +348,22 @@ export async function startStdioServer(
  * defaulting to 3001 if not set.
  *
  * @param createServer - Factory function that creates a new McpServer instance per request.
+ * @param allowedDirs - Directories audio files may be served from.
  */
 export async function startStreamableHttpServer(
   createServer: () => McpServer,
+  allowedDirs: AllowedAudioDirs = () => [],
 ): Promise<void> {
   const port = parseInt(process.env.PORT ?? "3001", 10);
 
   // Express app - bind to all interfaces for development/testing
   const expressApp = createMcpExpressApp({ host: "0.0.0.0" });
-  expressApp.use(cors());
 
-  // Serve local audio files with Range request support
-  expressApp.get("/audio", handleAudioRequest);
+  // Serve local audio files with Range request support. Registered before
+  // CORS, so other origins can't read them
+  expressApp.get("/audio", createAudioRequestHandler(allowedDirs));
+
+  expressApp.use(cors());
 
   expressApp.all("/mcp", async (req: Request, res: Response) => {
     // Create fresh server and transport for each request (stateless mode)
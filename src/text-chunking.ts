@@ -0,0 +1,86 @@
+/**
+ * Splits long text into request-sized chunks along natural boundaries, so
+ * long-form speech can be generated piece by piece and stitched together.
+ */
+
+// Sentence ends: terminal punctuation, optional closing quotes/brackets, then whitespace
+const SENTENCE_BOUNDARY = /(?<=[.!?…。！？]["'”’)\]]*)\s+/u;
+
+/**
+ * Splits text into chunks of at most `maxChars` characters.
+ *
+ * Paragraphs are kept together when they fit, otherwise they are split into
+ * sentences, and sentences longer than `maxChars` are split on whitespace as a
+ * last resort. Consecutive pieces are packed into the same chunk while they
+ * fit, so the number of requests stays low.
+ *
+ * @param text - The text to split.
+ * @param maxChars - Maximum number of characters per chunk.
+ * @returns Non-empty, trimmed chunks in reading order.
+ */
+export function splitTextIntoChunks(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const flush = () => {
+    if (current) chunks.push(current);
+    current = "";
+  };
+
+  const append = (piece: string, separator: string) => {
+    if (!current) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= maxChars) {
+      current += separator + piece;
+    } else {
+      flush();
+      current = piece;
+    }
+  };
+
+  const paragraphs = text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= maxChars) {
+      append(paragraph, "\n\n");
+      continue;
+    }
+
+    // Start oversized paragraphs on a fresh chunk so paragraph breaks stay chunk breaks
+    flush();
+    for (const sentence of paragraph.split(SENTENCE_BOUNDARY).filter(Boolean)) {
+      if (sentence.length <= maxChars) {
+        append(sentence, " ");
+        continue;
+      }
+      for (const piece of splitOnWhitespace(sentence, maxChars)) {
+        append(piece, " ");
+      }
+    }
+    flush();
+  }
+  flush();
+
+  return chunks;
+}
+
+function splitOnWhitespace(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/)) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      pieces.push(current);
+      current = "";
+    }
+    // A single word longer than the limit has to be cut mid-word
+    let remaining = word;
+    while (remaining.length > maxChars) {
+      pieces.push(remaining.slice(0, maxChars));
+      remaining = remaining.slice(maxChars);
+    }
+    current = current ? `${current} ${remaining}` : remaining;
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+}
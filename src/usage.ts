@@ -0,0 +1,242 @@
+/**
+ * Credit cost estimates, budgets and a local usage ledger for the paid
+ * generation tools.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+
+import type { GenerationType } from "./library.js";
+
+const LEDGER_FILENAME = ".elevenlabs-usage.jsonl";
+
+// Approximate credit prices, used to check budgets before a call is made.
+// The ledger records the account's actual usage where it can be measured.
+const CREDITS_PER_CHARACTER = 1;
+const CREDITS_PER_CHARACTER_FAST = 0.5; // Flash and Turbo models
+const SFX_CREDITS_PER_SECOND = 40;
+const SFX_DEFAULT_SECONDS = 5; // Typical length when the model picks the duration
+const MUSIC_CREDITS_PER_SECOND = 15;
+const MUSIC_DEFAULT_SECONDS = 60;
+
+/** Identifies this server process, for per-session budgets. */
+export const SESSION_ID = randomUUID();
+
+// Estimates of calls in progress that count against budgets before they are
+// recorded, keyed by estimate. A reservation is overlapped once another call
+// was in progress at the same time.
+const reservations = new Map<CostEstimate, { entry: LedgerEntry; overlapped: boolean }>();
+
+/**
+ * What a generation is expected to cost, in its billing unit and in credits.
+ */
+export interface CostEstimate {
+  unit: "characters" | "seconds";
+  amount: number;
+  credits: number;
+}
+
+/**
+ * A single paid call recorded in the ledger.
+ */
+export interface LedgerEntry {
+  session_id: string;
+  type: GenerationType;
+  created_at: string; // ISO 8601
+  estimate: CostEstimate;
+  /** Credits the account was charged, or null if that could not be measured. */
+  actual_credits: number | null;
+  /** Set when the call failed part-way; the entry covers what it used until then. */
+  failed?: boolean;
+}
+
+/**
+ * Per-session and per-day credit limits. Undefined limits are not enforced.
+ */
+export interface Budget {
+  session?: number;
+  daily?: number;
+}
+
+/**
+ * Credit totals for a set of ledger entries.
+ */
+export interface UsageTotals {
+  calls: number;
+  credits: number;
+  by_type: Partial<Record<GenerationType, number>>;
+}
+
+/**
+ * Estimates the cost of generating speech for the given text.
+ */
+export function estimateSpeechCost(characters: number, modelId: string): CostEstimate {
+  const perCharacter = /flash|turbo/.test(modelId) ? CREDITS_PER_CHARACTER_FAST : CREDITS_PER_CHARACTER;
+  return { unit: "characters", amount: characters, credits: Math.ceil(characters * perCharacter) };
+}
+
+/**
+ * Estimates the cost of a sound effect of the given length.
+ */
+export function estimateSoundEffectCost(durationSeconds: number | undefined): CostEstimate {
+  const seconds = durationSeconds ?? SFX_DEFAULT_SECONDS;
+  return { unit: "seconds", amount: seconds, credits: Math.ceil(seconds * SFX_CREDITS_PER_SECOND) };
+}
+
+/**
+ * Estimates the cost of a piece of music of the given length.
+ */
+export function estimateMusicCost(durationSeconds: number | undefined): CostEstimate {
+  const seconds = durationSeconds ?? MUSIC_DEFAULT_SECONDS;
+  return { unit: "seconds", amount: seconds, credits: Math.ceil(seconds * MUSIC_CREDITS_PER_SECOND) };
+}
+
+/**
+ * Reads the credit budget from ELEVENLABS_SESSION_BUDGET and ELEVENLABS_DAILY_BUDGET.
+ */
+export function getBudget(): Budget {
+  return {
+    session: parseBudget(process.env.ELEVENLABS_SESSION_BUDGET),
+    daily: parseBudget(process.env.ELEVENLABS_DAILY_BUDGET),
+  };
+}
+
+function parseBudget(value: string | undefined): number | undefined {
+  if (!value?.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Returns the path of the usage ledger for an output directory.
+ */
+export function getLedgerPath(outputDir: string): string {
+  return path.join(outputDir, LEDGER_FILENAME);
+}
+
+/**
+ * Appends an entry to the usage ledger, creating it if needed.
+ */
+export async function appendLedgerEntry(outputDir: string, entry: LedgerEntry): Promise<void> {
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.appendFile(getLedgerPath(outputDir), `${JSON.stringify(entry)}\n`, "utf-8");
+}
+
+/**
+ * Counts an estimate against the budgets until {@link releaseUsage} is called
+ * with it, so calls whose usage is recorded late can't overshoot a budget
+ * together.
+ */
+export function reserveUsage(type: GenerationType, estimate: CostEstimate): void {
+  const overlapped = reservations.size > 0;
+  for (const reservation of reservations.values()) reservation.overlapped = true;
+  reservations.set(estimate, {
+    entry: { session_id: SESSION_ID, type, created_at: new Date().toISOString(), estimate, actual_credits: null },
+    overlapped,
+  });
+}
+
+/**
+ * Releases an estimate reserved with {@link reserveUsage}. Returns whether
+ * another reserved call was in progress at any time during the reservation,
+ * in which case the account's credit count changed for that call too.
+ */
+export function releaseUsage(estimate: CostEstimate): boolean {
+  const overlapped = reservations.get(estimate)?.overlapped ?? false;
+  reservations.delete(estimate);
+  return overlapped;
+}
+
+/**
+ * Reserved estimates, as ledger entries to check budgets against.
+ */
+export function reservedEntries(): LedgerEntry[] {
+  return [...reservations.values()].map((reservation) => reservation.entry);
+}
+
+/**
+ * Reads the credits a request cost from the API's `character-cost` response
+ * header. Returns null if the response doesn't report it.
+ */
+export function readCharacterCost(headers: Headers): number | null {
+  const value = headers.get("character-cost");
+  const credits = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(credits) && credits >= 0 ? credits : null;
+}
+
+/**
+ * Reads all ledger entries, oldest first, skipping lines that fail to parse.
+ */
+export async function readLedger(outputDir: string): Promise<LedgerEntry[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(getLedgerPath(outputDir), "utf-8");
+  } catch {
+    return [];
+  }
+
+  const entries: LedgerEntry[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LedgerEntry);
+    } catch {
+      console.error("[ElevenLabs Player] Skipping malformed usage entry:", line.slice(0, 80));
+    }
+  }
+  return entries;
+}
+
+/**
+ * Credits charged for an entry: the measured amount if known, else the estimate.
+ */
+export function entryCredits(entry: LedgerEntry): number {
+  return entry.actual_credits ?? entry.estimate.credits;
+}
+
+/**
+ * Sums the credits of the given entries, overall and per generation type.
+ */
+export function summarizeUsage(entries: LedgerEntry[]): UsageTotals {
+  const totals: UsageTotals = { calls: 0, credits: 0, by_type: {} };
+  for (const entry of entries) {
+    const credits = entryCredits(entry);
+    totals.calls++;
+    totals.credits += credits;
+    totals.by_type[entry.type] = (totals.by_type[entry.type] ?? 0) + credits;
+  }
+  return totals;
+}
+
+/**
+ * Entries recorded by this server process.
+ */
+export function sessionEntries(entries: LedgerEntry[]): LedgerEntry[] {
+  return entries.filter((entry) => entry.session_id === SESSION_ID);
+}
+
+/**
+ * Entries recorded on the same local calendar day as `now`.
+ */
+export function todayEntries(entries: LedgerEntry[], now = new Date()): LedgerEntry[] {
+  const today = now.toDateString();
+  return entries.filter((entry) => new Date(entry.created_at).toDateString() === today);
+}
+
+/**
+ * Returns a description of the first budget the estimate would exceed, or
+ * null if it fits within all configured budgets.
+ */
+export function findBudgetViolation(entries: LedgerEntry[], estimate: CostEstimate, budget: Budget): string | null {
+  const checks = [
+    { name: "session", limit: budget.session, used: summarizeUsage(sessionEntries(entries)).credits },
+    { name: "daily", limit: budget.daily, used: summarizeUsage(todayEntries(entries)).credits },
+  ];
+  for (const { name, limit, used } of checks) {
+    if (limit !== undefined && used + estimate.credits > limit) {
+      return `this call needs about ${estimate.credits} credits, but only ${Math.max(0, limit - used)} of the ${limit}-credit ${name} budget remain`;
+    }
+  }
+  return null;
+}
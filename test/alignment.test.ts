@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { concatAlignments, segmentsFromWords, wordsFromCharacterAlignment, type CharacterAlignment } from "../src/alignment.ts";
+
+// One character every 0.1 seconds
+function align(text: string): CharacterAlignment {
+  const characters = [...text];
+  return {
+    characters,
+    characterStartTimesSeconds: characters.map((_, i) => i / 10),
+    characterEndTimesSeconds: characters.map((_, i) => (i + 1) / 10),
+  };
+}
+
+const rounded = (words: { text: string; start: number; end: number }[]) =>
+  words.map(({ text, start, end }) => ({ text, start: Math.round(start * 10) / 10, end: Math.round(end * 10) / 10 }));
+
+describe("wordsFromCharacterAlignment", () => {
+  it("groups characters into words with punctuation attached", () => {
+    const words = wordsFromCharacterAlignment(align("Hi,  you!"));
+
+    assert.deepEqual(rounded(words), [
+      { text: "Hi,", start: 0, end: 0.3 },
+      { text: "you!", start: 0.5, end: 0.9 },
+    ]);
+  });
+
+  it("shifts words by the offset and names their speakers", () => {
+    const words = wordsFromCharacterAlignment(align("a b"), 2, (i) => (i < 2 ? "Ann" : "Bob"));
+
+    assert.deepEqual(words.map((w) => [w.text, Math.round(w.start * 10) / 10, w.speaker]), [["a", 2, "Ann"], ["b", 2.2, "Bob"]]);
+  });
+});
+
+describe("concatAlignments", () => {
+  it("shifts each chunk and keeps words of neighbouring chunks apart", () => {
+    const joined = concatAlignments([
+      { alignment: align("One."), offsetSeconds: 0 },
+      { alignment: align("Two."), offsetSeconds: 1.5 },
+    ]);
+
+    assert.equal(joined.characters.join(""), "One. Two.");
+    assert.equal(joined.characterStartTimesSeconds.length, joined.characters.length);
+    assert.deepEqual(rounded(wordsFromCharacterAlignment(joined)), [
+      { text: "One.", start: 0, end: 0.4 },
+      { text: "Two.", start: 1.5, end: 1.9 },
+    ]);
+  });
+
+  it("returns an empty alignment for no chunks", () => {
+    assert.deepEqual(concatAlignments([]), { characters: [], characterStartTimesSeconds: [], characterEndTimesSeconds: [] });
+  });
+});
+
+describe("segmentsFromWords", () => {
+  it("starts a new segment at sentence ends and speaker changes", () => {
+    const words = [
+      { text: "Hello", start: 0, end: 0.5, speaker: "A" },
+      { text: "there.", start: 0.6, end: 1, speaker: "A" },
+      { text: "Next", start: 1.2, end: 1.5, speaker: "A" },
+      { text: "Reply", start: 1.6, end: 2, speaker: "B" },
+      { text: "\"done!\"", start: 2.1, end: 2.5, speaker: "B" },
+    ];
+
+    assert.deepEqual(segmentsFromWords(words), [
+      { text: "Hello there.", start: 0, end: 1, speaker: "A" },
+      { text: "Next", start: 1.2, end: 1.5, speaker: "A" },
+      { text: "Reply \"done!\"", start: 1.6, end: 2.5, speaker: "B" },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { detectAudioFormat, sniffAudioFormat } from "../src/audio-formats.ts";
+
+const pad = (head: Buffer) => Buffer.concat([head, Buffer.alloc(Math.max(0, 64 - head.length))]);
+
+function box(type: string, ...children: Buffer[]): Buffer {
+  const payload = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + payload.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, payload]);
+}
+
+const ftyp = (major: string, ...compatible: string[]) =>
+  box("ftyp", Buffer.from(major, "latin1"), Buffer.alloc(4), ...compatible.map((brand) => Buffer.from(brand, "latin1")));
+
+// A moov box with one track per handler type
+const moov = (...handlers: string[]) =>
+  box("moov", ...handlers.map((handler) => box("trak", box("mdia", box("hdlr", Buffer.alloc(8), Buffer.from(handler, "latin1"), Buffer.alloc(12))))));
+
+function ebml(docType: string): Buffer {
+  const element = Buffer.concat([Buffer.from([0x42, 0x82, 0x80 | docType.length]), Buffer.from(docType, "latin1")]);
+  const version = Buffer.from([0x42, 0x86, 0x81, 0x01]);
+  const body = Buffer.concat([version, element]);
+  return Buffer.concat([Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x80 | body.length]), body]);
+}
+
+const sniff = (head: Buffer) => sniffAudioFormat(pad(head))?.name;
+
+describe("sniffAudioFormat", () => {
+  it("recognises each container", () => {
+    assert.equal(sniff(Buffer.from([0xff, 0xfb, 0x90, 0x64])), "MP3");
+    assert.equal(sniff(Buffer.from([0xff, 0xf1, 0x50, 0x80])), "AAC");
+    assert.equal(sniff(Buffer.from("RIFF\0\0\0\0WAVEfmt ", "latin1")), "WAV");
+    assert.equal(sniff(Buffer.from("fLaC", "latin1")), "FLAC");
+    assert.equal(sniff(Buffer.concat([Buffer.from("OggS", "latin1"), Buffer.alloc(24), Buffer.from("OpusHead", "latin1")])), "Opus");
+    assert.equal(sniff(Buffer.concat([Buffer.from("OggS", "latin1"), Buffer.alloc(24), Buffer.from("\x01vorbis", "latin1")])), "Ogg");
+    assert.equal(sniff(ftyp("M4A ", "isom")), "M4A");
+    assert.equal(sniff(ebml("webm")), "WebM");
+    assert.equal(sniff(Buffer.from("FORM\0\0\0\0AIFF", "latin1")), "AIFF");
+    assert.equal(sniff(Buffer.from("caff\0\x01\0\0", "latin1")), "CAF");
+  });
+
+  it("skips a leading ID3 tag", () => {
+    const tag = Buffer.concat([Buffer.from("ID3\x04\0\0\0\0\0\x04", "latin1"), Buffer.alloc(4)]);
+    assert.equal(sniff(Buffer.concat([tag, Buffer.from("fLaC", "latin1")])), "FLAC");
+  });
+
+  it("takes audio brands among the compatible brands", () => {
+    assert.equal(sniff(ftyp("mp42", "isom", "M4B ")), "M4A");
+  });
+
+  it("checks the tracks of generic MP4 brands", () => {
+    assert.equal(sniff(Buffer.concat([ftyp("mp42", "isom"), moov("soun")])), "M4A");
+    assert.equal(sniff(Buffer.concat([ftyp("isom"), moov("soun", "text")])), "M4A");
+    assert.equal(sniff(Buffer.concat([ftyp("isom", "mp42"), moov("vide", "soun")])), undefined);
+    assert.equal(sniff(ftyp("mp42", "isom")), undefined);
+  });
+
+  it("rejects other ftyp brands", () => {
+    assert.equal(sniff(Buffer.concat([ftyp("qt  "), moov("soun")])), undefined);
+    assert.equal(sniff(ftyp("heic", "mif1")), undefined);
+  });
+
+  it("rejects EBML documents that aren't WebM", () => {
+    assert.equal(sniff(ebml("matroska")), undefined);
+    assert.equal(sniff(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x84, 0x42, 0x86, 0x81, 0x01])), undefined);
+  });
+});
+
+describe("detectAudioFormat", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "audio-formats-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("finds the moov box after the audio data", async () => {
+    const filePath = path.join(root, "track.mp4");
+    await fs.writeFile(filePath, Buffer.concat([ftyp("mp42", "isom"), box("mdat", Buffer.alloc(10000)), moov("soun")]));
+    assert.equal((await detectAudioFormat(filePath))?.name, "M4A");
+
+    await fs.writeFile(filePath, Buffer.concat([ftyp("mp42", "isom"), box("mdat", Buffer.alloc(10000)), moov("vide", "soun")]));
+    assert.equal(await detectAudioFormat(filePath), undefined);
+  });
+});
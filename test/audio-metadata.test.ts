@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { readAudioMetadata } from "../src/audio-metadata.ts";
+
+// One second of 128 kbps MPEG-1 Layer III audio at 44.1 kHz
+const mp3Audio = Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0x64]), Buffer.alloc(15996)]);
+const png = Buffer.from("89504e470d0a1a0a", "hex");
+
+function id3v23(...frames: [string, Buffer][]): Buffer {
+  const body = Buffer.concat(frames.map(([id, data]) => {
+    const header = Buffer.alloc(10);
+    header.write(id, 0, "latin1");
+    header.writeUInt32BE(data.length, 4);
+    return Buffer.concat([header, data]);
+  }));
+  const header = Buffer.from("ID3\x03\x00\x00\0\0\0\0", "latin1");
+  // Syncsafe size
+  header.writeUInt32BE((body.length & 0x7f) | ((body.length & 0x3f80) << 1) | ((body.length & 0x1fc000) << 2), 6);
+  return Buffer.concat([header, body]);
+}
+
+const utf16Text = (text: string) => Buffer.concat([Buffer.from([1, 0xff, 0xfe]), Buffer.from(text, "utf16le")]);
+
+function vorbisComments(...comments: string[]): Buffer {
+  const parts = [Buffer.alloc(4), Buffer.alloc(4)];
+  parts[1].writeUInt32LE(comments.length);
+  for (const comment of comments) {
+    const bytes = Buffer.from(comment, "utf-8");
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(bytes.length);
+    parts.push(length, bytes);
+  }
+  return Buffer.concat(parts);
+}
+
+function flacBlock(type: number, data: Buffer, last = false): Buffer {
+  const header = Buffer.alloc(4);
+  header[0] = (last ? 0x80 : 0) | type;
+  header.writeUIntBE(data.length, 1, 3);
+  return Buffer.concat([header, data]);
+}
+
+function riffChunk(id: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, "latin1");
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+function box(type: string, ...children: Buffer[]): Buffer {
+  const payload = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + payload.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, payload]);
+}
+
+describe("readAudioMetadata", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "audio-metadata-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function read(name: string, contents: Buffer) {
+    const filePath = path.join(root, name);
+    await fs.writeFile(filePath, contents);
+    return readAudioMetadata(filePath);
+  }
+
+  it("reads ID3v2 text, cover art and the MP3's duration", async () => {
+    const picture = Buffer.concat([Buffer.from("\0image/png\0\x03\0", "latin1"), png]);
+    const tag = id3v23(["TIT2", utf16Text("Grüße")], ["TPE1", Buffer.from("\0Band", "latin1")], ["APIC", picture]);
+
+    const metadata = await read("song.mp3", Buffer.concat([tag, mp3Audio]));
+
+    assert.equal(metadata.title, "Grüße");
+    assert.equal(metadata.artist, "Band");
+    assert.equal(metadata.artwork, `data:image/png;base64,${png.toString("base64")}`);
+    assert.equal(metadata.duration_seconds, 1);
+  });
+
+  it("falls back to an ID3v1 tag", async () => {
+    const v1 = Buffer.alloc(128);
+    v1.write("TAG", 0, "latin1");
+    v1.write("Old Title", 3, "latin1");
+    v1.write("Old Album", 63, "latin1");
+
+    const metadata = await read("old.mp3", Buffer.concat([mp3Audio, v1]));
+
+    assert.equal(metadata.title, "Old Title");
+    assert.equal(metadata.album, "Old Album");
+    assert.equal(metadata.duration_seconds, 1);
+  });
+
+  it("reads FLAC stream info and Vorbis comments", async () => {
+    const info = Buffer.alloc(34);
+    const sampleRate = 44100;
+    info[10] = sampleRate >> 12;
+    info[11] = (sampleRate >> 4) & 0xff;
+    info[12] = (sampleRate & 0x0f) << 4;
+    info.writeUInt32BE(2 * sampleRate, 14);
+
+    const metadata = await read("track.flac", Buffer.concat([
+      Buffer.from("fLaC", "latin1"),
+      flacBlock(0, info),
+      flacBlock(4, vorbisComments("title=Flac Song", "ARTIST=Someone", "ALBUM=Record"), true),
+    ]));
+
+    assert.deepEqual(metadata, { title: "Flac Song", artist: "Someone", album: "Record", duration_seconds: 2, artwork: undefined });
+  });
+
+  it("reads RIFF INFO fields and the WAV's duration", async () => {
+    const fmt = Buffer.alloc(16);
+    fmt.writeUInt16LE(1, 0);
+    fmt.writeUInt16LE(1, 2);
+    fmt.writeUInt32LE(8000, 4);
+    fmt.writeUInt32LE(16000, 8);
+    const info = Buffer.concat([Buffer.from("INFO", "latin1"), riffChunk("INAM", Buffer.from("Take\0", "latin1"))]);
+    const body = Buffer.concat([Buffer.from("WAVE", "latin1"), riffChunk("fmt ", fmt), riffChunk("LIST", info), riffChunk("data", Buffer.alloc(8000))]);
+
+    const metadata = await read("take.wav", riffChunk("RIFF", body));
+
+    assert.equal(metadata.title, "Take");
+    assert.equal(metadata.duration_seconds, 0.5);
+  });
+
+  it("reads MP4 atoms and the movie duration", async () => {
+    const mvhd = Buffer.alloc(20);
+    mvhd.writeUInt32BE(1000, 12);
+    mvhd.writeUInt32BE(2500, 16);
+    const text = (value: string) => box("data", Buffer.from([0, 0, 0, 1, 0, 0, 0, 0]), Buffer.from(value, "utf-8"));
+    const ilst = box("ilst", box("\xa9nam", text("Podcast")), box("aART", text("Host")), box("covr", box("data", Buffer.from([0, 0, 0, 14, 0, 0, 0, 0]), png)));
+    const moov = box("moov", box("mvhd", mvhd), box("udta", box("meta", Buffer.alloc(4), ilst)));
+
+    const metadata = await read("episode.m4a", Buffer.concat([box("ftyp", Buffer.from("M4A \0\0\0\0", "latin1")), moov]));
+
+    assert.equal(metadata.title, "Podcast");
+    assert.equal(metadata.artist, "Host");
+    assert.equal(metadata.duration_seconds, 2.5);
+    assert.equal(metadata.artwork, `data:image/png;base64,${png.toString("base64")}`);
+  });
+
+  it("returns nothing for missing or unrecognised files", async () => {
+    assert.deepEqual(await readAudioMetadata(path.join(root, "missing.mp3")), {});
+    assert.deepEqual(await read("noise.bin", Buffer.from("not audio at all")), { artwork: undefined });
+  });
+});
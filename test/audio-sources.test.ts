@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { expandAudioSource, parseM3u, parsePlsPlaylist } from "../src/audio-sources.ts";
+
+const options = { extensions: [".mp3", ".wav"], limit: 100 };
+
+describe("expandAudioSource", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "audio-sources-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function touch(...names: string[]): Promise<void> {
+    for (const name of names) {
+      await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+      await fs.writeFile(path.join(root, name), "");
+    }
+  }
+
+  const relative = (result: { entries: { filePath: string }[] }) => result.entries.map((e) => path.relative(root, e.filePath));
+
+  it("takes an existing path literally even if it looks like a glob", async () => {
+    await touch("Album [2020]/01.mp3", "Album [2020]/02.mp3", "Album 2/03.mp3");
+
+    const result = await expandAudioSource(path.join(root, "Album [2020]"), options);
+
+    assert.deepEqual(relative(result), ["Album [2020]/01.mp3", "Album [2020]/02.mp3"]);
+  });
+
+  it("matches a glob when nothing exists at the path", async () => {
+    await touch("Album 1/01.mp3", "Album 2/02.mp3", "Other/03.mp3");
+
+    const result = await expandAudioSource(path.join(root, "Album [12]", "*.mp3"), options);
+
+    assert.deepEqual(relative(result), ["Album 1/01.mp3", "Album 2/02.mp3"]);
+  });
+
+  it("matches every file below a folder with a trailing **", async () => {
+    await touch("a.mp3", "notes.txt", "disc 1/01.mp3", "disc 1/bonus/02.wav", "disc 2/03.mp3");
+
+    const result = await expandAudioSource(path.join(root, "**"), options);
+
+    assert.deepEqual(relative(result), ["a.mp3", "disc 1/01.mp3", "disc 1/bonus/02.wav", "disc 2/03.mp3"]);
+  });
+
+  it("matches files in any folder with ** before a pattern", async () => {
+    await touch("01.mp3", "disc 1/02.mp3", "disc 1/03.wav");
+
+    const result = await expandAudioSource(path.join(root, "**", "*.mp3"), options);
+
+    assert.deepEqual(relative(result), ["01.mp3", "disc 1/02.mp3"]);
+  });
+
+  it("reports a missing path that isn't a glob", async () => {
+    await assert.rejects(expandAudioSource(path.join(root, "missing"), options), /File not found/);
+  });
+});
+
+describe("parsePlsPlaylist", () => {
+  const baseDir = path.join(os.tmpdir(), "music");
+
+  it("orders entries by number and pairs them with their titles", () => {
+    const pls = [
+      "[playlist]",
+      "File2=b.mp3",
+      "Title2=Band - Second",
+      " file1 = sub/a.mp3 ",
+      "Title1=First",
+      "Title3=No file",
+      "NumberOfEntries=2",
+      "Version=2",
+    ].join("\r\n");
+
+    assert.deepEqual(parsePlsPlaylist(pls, baseDir), [
+      { filePath: path.join(baseDir, "sub", "a.mp3"), title: "First" },
+      { filePath: path.join(baseDir, "b.mp3"), artist: "Band", title: "Second" },
+    ]);
+  });
+
+  it("keeps remote entries and resolves file URLs", () => {
+    const pls = "[playlist]\nFile1=https://example.com/a.mp3\nFile10=file:///srv/b.mp3\nFile9=/abs/c.mp3\n";
+
+    assert.deepEqual(parsePlsPlaylist(pls, baseDir).map((e) => e.filePath), ["https://example.com/a.mp3", "/abs/c.mp3", "/srv/b.mp3"]);
+  });
+});
+
+describe("parseM3u", () => {
+  it("reads titles from #EXTINF and artists from #EXTART", () => {
+    const m3u = "#EXTM3U\n#EXTINF:123,Band - Song\na.mp3\n#EXTINF:-1,Band - Song\n#EXTART:Band\nb.mp3\nc.mp3\n";
+
+    assert.deepEqual(parseM3u(m3u, "/music"), [
+      { filePath: "/music/a.mp3", artist: "Band", title: "Song" },
+      { filePath: "/music/b.mp3", artist: "Band", title: "Song" },
+      { filePath: "/music/c.mp3" },
+    ]);
+  });
+});
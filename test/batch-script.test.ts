@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { fileStemFromId, parseCsv, readBatchFile } from "../src/batch-script.ts";
+
+describe("parseCsv", () => {
+  it("splits records on any line ending and skips blank lines", () => {
+    assert.deepEqual(parseCsv("id,text\r\na,One\n\nb,Two\rc,Three\n"), [["id", "text"], ["a", "One"], ["b", "Two"], ["c", "Three"]]);
+  });
+
+  it("keeps commas, doubled quotes and line breaks inside quoted fields", () => {
+    const csv = 'id,text\nintro,"Well, she said ""hi"".\r\nThen left."\n';
+
+    assert.deepEqual(parseCsv(csv), [["id", "text"], ["intro", 'Well, she said "hi".\r\nThen left.']]);
+  });
+
+  it("keeps empty fields", () => {
+    assert.deepEqual(parseCsv('a,,""\n,'), [["a", "", ""], ["", ""]]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    assert.throws(() => parseCsv('id,text\na,"never closed'), /Unterminated quoted field/);
+  });
+});
+
+describe("readBatchFile", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "batch-script-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function read(name: string, contents: string) {
+    const filePath = path.join(root, name);
+    await fs.writeFile(filePath, contents);
+    return readBatchFile(filePath);
+  }
+
+  it("turns CSV rows into row objects with voice settings", async () => {
+    const rows = await read("script.csv", "\uFEFFID, Text ,voice_id,stability,use_speaker_boost,settings\n" +
+      'a," Hello, there ",v1,0.4,yes,"{""style"": 0.2}"\n' +
+      "b,Bye,,,,\n");
+
+    assert.deepEqual(rows, [
+      { id: "a", text: " Hello, there ", voice_id: "v1", settings: { stability: 0.4, use_speaker_boost: true, style: 0.2 } },
+      { id: "b", text: "Bye" },
+    ]);
+  });
+
+  it("needs id and text columns", async () => {
+    await assert.rejects(read("script.csv", "id,line\na,Hello\n"), /"text" column/);
+  });
+
+  it("reports the line of invalid settings JSON", async () => {
+    await assert.rejects(read("script.csv", "id,text,settings\na,Hi,\nb,Hi,{oops}\n"), /Invalid settings JSON on line 3/);
+  });
+});
+
+describe("fileStemFromId", () => {
+  it("replaces unsafe characters and leading dots", () => {
+    assert.equal(fileStemFromId("menu/start game"), "menu_start_game");
+    assert.equal(fileStemFromId("../secret"), "secret");
+    assert.equal(fileStemFromId("  "), "row");
+  });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { findCachedOutput, getCacheDir, getCacheKey, restoreFromCache, storeInCache } from "../src/generation-cache.ts";
+
+describe("generation cache", () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "generation-cache-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  async function writeSource(name: string): Promise<string> {
+    const filePath = path.join(outputDir, `${name}.mp3`);
+    await fs.writeFile(filePath, `audio for ${name}`);
+    return filePath;
+  }
+
+  it("keeps every entry when generations are stored concurrently", async () => {
+    const keys = Array.from({ length: 14 }, (_, i) => getCacheKey("sfx", { text: `sound ${i}` }));
+    const sources = await Promise.all(keys.map((_, i) => writeSource(`sound-${i}`)));
+
+    await Promise.all(keys.map((key, i) => storeInCache(outputDir, key, "sfx", sources[i], `Sound ${i}`, { n: i }, Infinity)));
+
+    const index = JSON.parse(await fs.readFile(path.join(getCacheDir(outputDir), "index.json"), "utf-8"));
+    assert.deepEqual(index.map((e: { key: string }) => e.key).sort(), [...keys].sort());
+    const leftovers = (await fs.readdir(getCacheDir(outputDir))).filter((name) => name.endsWith(".tmp"));
+    assert.deepEqual(leftovers, []);
+  });
+
+  it("restores entries while others are being stored", async () => {
+    const first = getCacheKey("tts", { text: "first" });
+    await storeInCache(outputDir, first, "tts", await writeSource("first"), "First", {}, Infinity);
+
+    const others = Array.from({ length: 5 }, (_, i) => getCacheKey("tts", { text: `other ${i}` }));
+    const sources = await Promise.all(others.map((_, i) => writeSource(`other-${i}`)));
+    const destination = path.join(outputDir, "restored.mp3");
+    const [restored] = await Promise.all([
+      restoreFromCache(outputDir, first, destination, "Restored"),
+      ...others.map((key, i) => storeInCache(outputDir, key, "tts", sources[i], `Other ${i}`, {}, Infinity)),
+    ]);
+
+    assert.equal(restored?.key, first);
+    assert.equal(await fs.readFile(destination, "utf-8"), "audio for first");
+    const index = JSON.parse(await fs.readFile(path.join(getCacheDir(outputDir), "index.json"), "utf-8"));
+    assert.equal(index.length, 6);
+  });
+
+  it("finds the earlier output file while it exists", async () => {
+    const key = getCacheKey("sfx", { prompt: "rain" });
+    const output = await writeSource("rain");
+    await storeInCache(outputDir, key, "sfx", output, "Rain", {}, Infinity);
+
+    assert.equal((await findCachedOutput(outputDir, key, "Rain"))?.output_path, output);
+
+    await fs.rm(output);
+    assert.equal(await findCachedOutput(outputDir, key, "Rain"), null);
+
+    const copy = path.join(outputDir, "rain-2.mp3");
+    assert.notEqual(await restoreFromCache(outputDir, key, copy, "Rain"), null);
+    assert.equal((await findCachedOutput(outputDir, key, "Rain"))?.output_path, copy);
+  });
+
+  it("only reuses the earlier output file under the same title", async () => {
+    const key = getCacheKey("sfx", { prompt: "thunder" });
+    const output = await writeSource("thunder");
+    await storeInCache(outputDir, key, "sfx", output, "Thunder", {}, Infinity);
+
+    assert.equal(await findCachedOutput(outputDir, key, "Storm"), null);
+
+    const copy = path.join(outputDir, "storm.mp3");
+    assert.notEqual(await restoreFromCache(outputDir, key, copy, "Storm"), null);
+    assert.equal((await findCachedOutput(outputDir, key, "Storm"))?.output_path, copy);
+    assert.equal(await findCachedOutput(outputDir, key, "Thunder"), null);
+  });
+
+  it("evicts the least recently used entries past the size limit", async () => {
+    const keys = ["a", "b", "c"].map((text) => getCacheKey("music", { text }));
+    // Room for two files of "audio for <key>"
+    const maxBytes = 2 * `audio for ${keys[0]}`.length;
+    for (const key of keys) {
+      await storeInCache(outputDir, key, "music", await writeSource(key), key, {}, maxBytes);
+    }
+
+    assert.equal(await restoreFromCache(outputDir, keys[0], path.join(outputDir, "a.mp3"), "a"), null);
+    assert.notEqual(await restoreFromCache(outputDir, keys[2], path.join(outputDir, "c.mp3"), "c"), null);
+  });
+});
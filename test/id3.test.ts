@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { readAudioMetadata } from "../src/audio-metadata.ts";
+import { buildId3Tag, stripId3Tag, writeId3Tag } from "../src/id3.ts";
+
+// One silent MPEG-1 Layer III frame, 128 kbps at 44.1 kHz
+const frame = Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0x64]), Buffer.alloc(413)]);
+const date = new Date("2026-01-02T03:04:05Z");
+
+describe("writeId3Tag", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "id3-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("writes tags that read back, replacing the old tag", async () => {
+    const filePath = path.join(root, "speech.mp3");
+    const oldTag = buildId3Tag({ title: "Old", artist: "Someone", date });
+    await fs.writeFile(filePath, Buffer.concat([oldTag, frame]));
+
+    await writeId3Tag(filePath, { title: "Héllo – wörld", artist: "ElevenLabs", comment: "Hello world", date });
+
+    const metadata = await readAudioMetadata(filePath);
+    assert.equal(metadata.title, "Héllo – wörld");
+    assert.equal(metadata.artist, "ElevenLabs");
+    assert.deepEqual(Buffer.from(stripId3Tag(await fs.readFile(filePath))), frame);
+  });
+
+  it("leaves no temporary files behind when writes overlap", async () => {
+    const filePath = path.join(root, "speech.mp3");
+    await fs.writeFile(filePath, frame);
+
+    await Promise.all(["One", "Two", "Three"].map((title) => writeId3Tag(filePath, { title, artist: "ElevenLabs", date })));
+
+    assert.deepEqual(await fs.readdir(root), ["speech.mp3"]);
+    assert.deepEqual(Buffer.from(stripId3Tag(await fs.readFile(filePath))), frame);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { encodeForOutput, estimateDurationSeconds, getOutputExtension, getRawEncoding } from "../src/output-formats.ts";
+
+describe("encodeForOutput", () => {
+  it("wraps 16-bit PCM in a WAV header", () => {
+    const audio = new Uint8Array(48000).fill(1);
+
+    const wav = Buffer.from(encodeForOutput("pcm_24000", audio));
+
+    assert.equal(wav.length, 44 + audio.length);
+    assert.equal(wav.toString("latin1", 0, 4), "RIFF");
+    assert.equal(wav.readUInt32LE(4), 36 + audio.length);
+    assert.equal(wav.toString("latin1", 8, 16), "WAVEfmt ");
+    assert.equal(wav.readUInt32LE(16), 16);
+    assert.equal(wav.readUInt16LE(20), 1); // PCM
+    assert.equal(wav.readUInt16LE(22), 1); // Mono
+    assert.equal(wav.readUInt32LE(24), 24000);
+    assert.equal(wav.readUInt32LE(28), 48000); // Bytes per second
+    assert.equal(wav.readUInt16LE(32), 2); // Block align
+    assert.equal(wav.readUInt16LE(34), 16);
+    assert.equal(wav.toString("latin1", 36, 40), "data");
+    assert.equal(wav.readUInt32LE(40), audio.length);
+    assert.deepEqual(wav.subarray(44), Buffer.from(audio));
+  });
+
+  it("tags µ-law and A-law audio as 8-bit", () => {
+    for (const [format, tag] of [["ulaw_8000", 7], ["alaw_8000", 6]] as const) {
+      const wav = Buffer.from(encodeForOutput(format, new Uint8Array(10)));
+
+      assert.equal(wav.readUInt16LE(20), tag);
+      assert.equal(wav.readUInt32LE(24), 8000);
+      assert.equal(wav.readUInt32LE(28), 8000);
+      assert.equal(wav.readUInt16LE(32), 1);
+      assert.equal(wav.readUInt16LE(34), 8);
+    }
+  });
+
+  it("returns container formats unchanged", () => {
+    const audio = new Uint8Array([0xff, 0xfb, 0x90, 0x64]);
+
+    assert.equal(encodeForOutput("mp3_44100_128", audio), audio);
+    assert.equal(encodeForOutput("opus_48000_64", audio), audio);
+  });
+});
+
+describe("output format details", () => {
+  it("saves raw encodings as WAV", () => {
+    assert.equal(getRawEncoding("mp3_44100_128"), null);
+    assert.equal(getOutputExtension("pcm_44100"), ".wav");
+    assert.equal(getOutputExtension("ulaw_8000"), ".wav");
+    assert.equal(getOutputExtension("opus_48000_96"), ".opus");
+    assert.equal(getOutputExtension("mp3_22050_32"), ".mp3");
+  });
+
+  it("estimates durations from the byte count", () => {
+    assert.equal(estimateDurationSeconds("pcm_16000", 64000), 2);
+    assert.equal(estimateDurationSeconds("ulaw_8000", 4000), 0.5);
+    assert.equal(estimateDurationSeconds("mp3_44100_128", 32000), 2);
+    assert.equal(estimateDurationSeconds("opus_48000_64", 32000), null);
+  });
+});
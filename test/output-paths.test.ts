@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { allocateOutputPath, releaseOutputPath } from "../src/output-paths.ts";
+
+describe("allocateOutputPath", () => {
+  let root: string;
+  let outside: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "output-paths-"));
+    outside = await fs.mkdtemp(path.join(os.tmpdir(), "output-paths-outside-"));
+  });
+
+  afterEach(async () => {
+    delete process.env.ELEVENLABS_FILENAME_TEMPLATE;
+    await fs.rm(root, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+  });
+
+  const relative = (filePath: string) => path.relative(root, filePath);
+
+  it("fills the template and sorts files into subdirectories", async () => {
+    process.env.ELEVENLABS_FILENAME_TEMPLATE = "{type}/{voice}/{title-slug}";
+
+    const filePath = await allocateOutputPath(root, { type: "tts", extension: ".mp3", title: "Héllo, World!", voice: "Juniper Rose" });
+
+    assert.equal(relative(filePath), path.join("tts", "juniper-rose", "hello-world.mp3"));
+    assert.ok((await fs.stat(path.dirname(filePath))).isDirectory());
+  });
+
+  it("drops separators left by unset tokens", async () => {
+    process.env.ELEVENLABS_FILENAME_TEMPLATE = "{voice}_{title-slug}-{type}";
+
+    const filePath = await allocateOutputPath(root, { type: "sfx", extension: ".mp3", title: "Rain" });
+
+    assert.equal(relative(filePath), "rain-sfx.mp3");
+  });
+
+  it("numbers {seq} past names that are taken or reserved", async () => {
+    process.env.ELEVENLABS_FILENAME_TEMPLATE = "take-{seq}";
+    await fs.writeFile(path.join(root, "take-001.mp3"), "");
+
+    const second = await allocateOutputPath(root, { type: "tts", extension: ".mp3" });
+    const third = await allocateOutputPath(root, { type: "tts", extension: ".mp3" });
+
+    assert.deepEqual([second, third].map(relative), ["take-002.mp3", "take-003.mp3"]);
+  });
+
+  it("rejects unknown tokens", async () => {
+    process.env.ELEVENLABS_FILENAME_TEMPLATE = "{type}-{mood}";
+
+    await assert.rejects(allocateOutputPath(root, { type: "tts", extension: ".mp3" }), /Unknown token \{mood\}/);
+  });
+
+  it("frees a reserved name once it is released", async () => {
+    const options = { type: "tts", extension: ".mp3" };
+    const first = await allocateOutputPath(root, options, "clip");
+    assert.equal(relative(await allocateOutputPath(root, options, "clip")), "clip-2.mp3");
+
+    releaseOutputPath(first);
+    assert.equal(await allocateOutputPath(root, options, "clip"), first);
+  });
+
+  it("accepts names starting with two dots", async () => {
+    const filePath = await allocateOutputPath(root, { type: "tts", extension: ".mp3" }, "..intro.mp3");
+
+    assert.equal(relative(filePath), "..intro.mp3");
+  });
+
+  it("rejects output paths outside the root", async () => {
+    const options = { type: "tts", extension: ".mp3" };
+
+    await assert.rejects(allocateOutputPath(root, options, "../escape"), /must be inside the output directory/);
+    await assert.rejects(allocateOutputPath(root, options, path.join(outside, "escape")), /must be inside the output directory/);
+    await assert.rejects(allocateOutputPath(root, { type: "tts_batch", extension: "" }, "."), /must be inside the output directory/);
+  });
+
+  it("rejects output paths through a symlink that leads outside the root", async () => {
+    await fs.symlink(outside, path.join(root, "link"));
+    const options = { type: "tts", extension: ".mp3" };
+
+    await assert.rejects(allocateOutputPath(root, options, "link/escape"), /must be inside the output directory/);
+    await assert.rejects(allocateOutputPath(root, options, "link/new/escape"), /must be inside the output directory/);
+    assert.deepEqual(await fs.readdir(outside), []);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { parseM3u } from "../src/audio-sources.ts";
+import { formatM3u8, getPlaylistsDir, savePlaylist } from "../src/playlists.ts";
+
+describe("formatM3u8", () => {
+  it("reads titles containing a dash back unchanged", () => {
+    const tracks = [
+      { filePath: "/music/a.mp3", title: "Intro - Live", artist: "Band", duration: 61.4 },
+      { filePath: "/music/b.mp3", title: "Side A - Take 2" },
+      { filePath: "/music/c.mp3", title: "Plain" },
+    ];
+
+    const text = formatM3u8("Mix", tracks);
+
+    assert.match(text, /^#EXTINF:61,Band - Intro - Live$/m);
+    assert.deepEqual(parseM3u(text, "/"), [
+      { filePath: "/music/a.mp3", title: "Intro - Live", artist: "Band" },
+      { filePath: "/music/b.mp3", title: "Side A - Take 2" },
+      { filePath: "/music/c.mp3", title: "Plain" },
+    ]);
+  });
+});
+
+describe("parseM3u", () => {
+  it("splits Artist - Title in playlists without #EXTART", () => {
+    const text = "#EXTM3U\n#EXTINF:-1,Band - Song - Remix\nsong.mp3\n";
+
+    assert.deepEqual(parseM3u(text, "/music"), [{ filePath: "/music/song.mp3", artist: "Band", title: "Song - Remix" }]);
+  });
+});
+
+describe("savePlaylist", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "playlists-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("leaves no temporary files behind when saves overlap", async () => {
+    const saves = [1, 2, 3].map((n) => savePlaylist(root, "Mix", [{ filePath: `/music/${n}.mp3`, title: `Track ${n}` }], true));
+    await Promise.all(saves);
+
+    assert.deepEqual(await fs.readdir(getPlaylistsDir(root)), ["Mix.m3u8"]);
+  });
+});
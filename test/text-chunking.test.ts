@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { splitTextIntoChunks } from "../src/text-chunking.ts";
+
+describe("splitTextIntoChunks", () => {
+  it("returns no chunks for empty or whitespace-only text", () => {
+    assert.deepEqual(splitTextIntoChunks("", 200), []);
+    assert.deepEqual(splitTextIntoChunks(" \n\n\t \n", 200), []);
+  });
+
+  it("keeps short text in one trimmed chunk", () => {
+    assert.deepEqual(splitTextIntoChunks("  Hello there.\n\nGeneral Kenobi.  ", 200), ["Hello there.\n\nGeneral Kenobi."]);
+  });
+
+  it("packs paragraphs into chunks while they fit", () => {
+    const paragraphs = ["a".repeat(60), "b".repeat(60), "c".repeat(60)];
+
+    const chunks = splitTextIntoChunks(paragraphs.join("\n\n"), 130);
+
+    assert.deepEqual(chunks, [`${paragraphs[0]}\n\n${paragraphs[1]}`, paragraphs[2]]);
+  });
+
+  it("splits oversized paragraphs on sentence boundaries", () => {
+    const first = `${"One two three. ".repeat(4).trim()}`;
+    const text = `Intro.\n\n${first} "Quoted end!" Last one?`;
+
+    const chunks = splitTextIntoChunks(text, 40);
+
+    assert.deepEqual(chunks, [
+      "Intro.",
+      "One two three. One two three.",
+      "One two three. One two three.",
+      "\"Quoted end!\" Last one?",
+    ]);
+  });
+
+  it("splits sentences on whitespace, and words only as a last resort", () => {
+    const chunks = splitTextIntoChunks(`alpha beta gamma delta ${"x".repeat(25)}`, 12);
+
+    assert.deepEqual(chunks, ["alpha beta", "gamma delta", "x".repeat(12), "x".repeat(12), "x"]);
+  });
+
+  it("never exceeds the limit and keeps every word", () => {
+    const text = Array.from({ length: 200 }, (_, i) => `Sentence number ${i} ends here.${i % 7 === 6 ? "\n\n" : " "}`).join("");
+    const chunks = splitTextIntoChunks(text, 250);
+
+    assert.ok(chunks.every((chunk) => chunk.length <= 250 && chunk === chunk.trim()));
+    assert.deepEqual(chunks.join(" ").split(/\s+/), text.trim().split(/\s+/));
+  });
+});
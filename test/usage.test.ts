@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  estimateSpeechCost,
+  findBudgetViolation,
+  readCharacterCost,
+  releaseUsage,
+  reserveUsage,
+  reservedEntries,
+} from "../src/usage.ts";
+
+describe("usage reservations", () => {
+  it("count reserved estimates against budgets until released", () => {
+    const budget = { session: 1000 };
+    const streaming = estimateSpeechCost(800, "eleven_v3");
+    const next = estimateSpeechCost(300, "eleven_v3");
+
+    reserveUsage("tts", streaming);
+    assert.match(findBudgetViolation(reservedEntries(), next, budget) ?? "", /only 200 of the 1000-credit session budget remain/);
+
+    releaseUsage(streaming);
+    assert.equal(findBudgetViolation(reservedEntries(), next, budget), null);
+  });
+
+  it("report whether another call was reserved at the same time", () => {
+    const first = estimateSpeechCost(100, "eleven_v3");
+    const second = estimateSpeechCost(200, "eleven_v3");
+    const alone = estimateSpeechCost(300, "eleven_v3");
+
+    reserveUsage("tts", first);
+    reserveUsage("sfx", second);
+    assert.equal(releaseUsage(second), true);
+    assert.equal(releaseUsage(first), true);
+
+    reserveUsage("music", alone);
+    assert.equal(releaseUsage(alone), false);
+  });
+});
+
+describe("readCharacterCost", () => {
+  it("reads the cost a response reports", () => {
+    assert.equal(readCharacterCost(new Headers({ "character-cost": "42" })), 42);
+    assert.equal(readCharacterCost(new Headers({ "character-cost": "0" })), 0);
+  });
+
+  it("returns null when the header is missing or invalid", () => {
+    assert.equal(readCharacterCost(new Headers()), null);
+    assert.equal(readCharacterCost(new Headers({ "character-cost": "" })), null);
+    assert.equal(readCharacterCost(new Headers({ "character-cost": "-3" })), null);
+    assert.equal(readCharacterCost(new Headers({ "character-cost": "many" })), null);
+  });
+});